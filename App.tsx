@@ -1,22 +1,29 @@
 
 import React, { useState, useEffect, useCallback, createContext, useContext, useMemo, useRef } from 'react';
-import { ActivityBarView, Extension, Theme, ThemeContextType, ContextMenuData, Command } from './types';
+import { ActivityBarView, Extension, Theme, ThemeContextType, ContextMenuData, Command, File, FileSystemNode, GitStashApplyResult, DiffSource, ReplaceOperation, TextSelection } from './types';
 import { mockExtensions } from './data';
 import CodeEditor from './components/CodeEditor';
 import DiffViewer from './components/DiffViewer';
+import FileHistory from './components/FileHistory';
 import FileExplorer from './components/FileExplorer';
 import SearchView from './components/SearchView';
 import GitView from './components/GitView';
 import DebugView from './components/DebugView';
 import ExtensionsView from './components/ExtensionsView';
-import { ContextMenu, AboutModal, CommandPalette } from './components/Menus';
+import TerminalPanel from './components/TerminalPanel';
+import { ContextMenu, AboutModal, CommandPalette, ApplyPatchModal } from './components/Menus';
 import { 
     FileExplorerIcon, SearchIcon, GitIcon, DebugIcon, ExtensionsIcon, TerminalIcon, CloseIcon, 
     SunIcon, MoonIcon
 } from './components/icons';
-import { useFileSystem } from './hooks/useFileSystem';
-import { useTerminal } from './hooks/useTerminal';
+import { useFileSystem, generateId } from './hooks/useFileSystem';
+import { TerminalFileOperations } from './hooks/useTerminal';
+import { useTerminalSessions } from './hooks/useTerminalSessions';
 import { useOpenFiles } from './hooks/useOpenFiles';
+import { useGitRepository, diffTrees, hasConflictMarkers, shortCommitId } from './hooks/useGitRepository';
+import { useGitTerminalCommands } from './hooks/useGitTerminalCommands';
+import { useGitInterop, pickFiles } from './hooks/useGitInterop';
+import { usePatches } from './hooks/usePatches';
 
 // --- THEME MANAGEMENT ---
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -70,84 +77,31 @@ const ActivityBarIcon: React.FC<{
     </button>
 );
 
-// --- TERMINAL COMPONENT ---
-interface IntegratedTerminalProps {
-    history: any[];
-    onCommand: (command: string) => void;
-    isTerminalOpen: boolean;
-}
-
-const IntegratedTerminal: React.FC<IntegratedTerminalProps> = ({ history, onCommand, isTerminalOpen }) => {
-    const [inputValue, setInputValue] = useState('');
-    const endOfHistoryRef = useRef<HTMLDivElement>(null);
-    const inputRef = useRef<HTMLInputElement>(null);
-
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'Enter' && inputValue.trim()) {
-            onCommand(inputValue);
-            setInputValue('');
-        }
-    };
-
-    useEffect(() => {
-        endOfHistoryRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [history]);
-
-    useEffect(() => {
-        if (isTerminalOpen) {
-            inputRef.current?.focus();
-        }
-    }, [isTerminalOpen]);
-
-    return (
-        <div className="bg-light-bg dark:bg-dark-bg h-full w-full p-2 font-mono text-sm flex flex-col" onClick={() => inputRef.current?.focus()}>
-            <div className="flex-grow overflow-y-auto">
-                {history.map(line => (
-                    <div key={line.id}>
-                        {line.type === 'input' && (
-                            <div className="flex items-center">
-                                <span className="text-green-400 mr-2 flex-shrink-0">nexus-code &gt;</span>
-                                <span className="flex-1 text-dark-text dark:text-dark-text">{line.content}</span>
-                            </div>
-                        )}
-                        {line.type === 'output' && (
-                            <div className="text-dark-text-alt dark:text-dark-text whitespace-pre-wrap">{line.content}</div>
-                        )}
-                    </div>
-                ))}
-                <div ref={endOfHistoryRef} />
-            </div>
-            <div className="flex items-center mt-1">
-                <span className="text-green-400 mr-2 flex-shrink-0">nexus-code &gt;</span>
-                <input
-                    ref={inputRef}
-                    type="text"
-                    value={inputValue}
-                    onChange={e => setInputValue(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    className="flex-1 bg-transparent border-none outline-none text-dark-text dark:text-dark-text p-0"
-                    aria-label="Terminal input"
-                />
-            </div>
-        </div>
-    );
-};
-
 // --- MAIN APP COMPONENT ---
+// Milliseconds of no typing before the blame gutter catches up with the edits
+const BLAME_DELAY = 300;
+
 const App: React.FC = () => {
     const { theme, toggleTheme } = useTheme();
     const [activeView, setActiveView] = useState<ActivityBarView>(ActivityBarView.EXPLORER);
     const [isTerminalOpen, setTerminalOpen] = useState(false);
     const [isSidebarVisible, setSidebarVisible] = useState(true);
     const [isAboutModalOpen, setAboutModalOpen] = useState(false);
+    const [isPatchModalOpen, setPatchModalOpen] = useState(false);
     const [isCommandPaletteOpen, setCommandPaletteOpen] = useState(false);
-    const [diffFile, setDiffFile] = useState<any>(null);
+    // File whose revision timeline fills the editor area
+    const [historyFile, setHistoryFile] = useState<File | null>(null);
+    const [isBlameVisible, setBlameVisible] = useState(false);
     const [contextMenu, setContextMenu] = useState<ContextMenuData | null>(null);
     const [hoveredTabId, setHoveredTabId] = useState<string | null>(null);
+    const [lastReplace, setLastReplace] = useState<ReplaceOperation | null>(null);
+    // Range to select in the editor once a file opens from a search result
+    const [reveal, setReveal] = useState<(TextSelection & { fileId: string }) | null>(null);
 
     // Custom hooks
     const {
         fileSystem,
+        getFileSystem,
         savedFileSystem,
         handleCodeChange,
         handleSaveFile,
@@ -157,8 +111,9 @@ const App: React.FC = () => {
         duplicateNode,
         moveNode,
         searchFiles,
-        getGitStatus,
-        resetToSaved,
+        commitFiles,
+        restoreFiles,
+        checkoutTree,
         findFileByIdRecursive,
         findNodeRecursive,
     } = useFileSystem();
@@ -172,18 +127,60 @@ const App: React.FC = () => {
         closeAllFiles,
         closeOtherFiles,
         closeFilesToTheRight,
+        reloadFiles,
         getActiveFile,
         isFileOpen,
         setActiveFileId,
+        recordEdit,
+        undoEdit,
+        redoEdit,
+        diffTabs,
+        activeDiffId,
+        setActiveDiffId,
+        openDiff,
+        closeDiff,
     } = useOpenFiles();
 
     const {
-        history: terminalHistory,
-        currentDirectory,
-        executeCommand,
-        navigateHistory,
-        addToHistory
-    } = useTerminal(fileSystem, openFile);
+        head,
+        branches,
+        currentBranch,
+        mergeState,
+        stashes,
+        index,
+        author,
+        setAuthor,
+        commit,
+        getCommit,
+        getLog,
+        getCommitChanges,
+        getFileAtRevision,
+        getFileHistory,
+        blameFile,
+        createBranch,
+        renameBranch,
+        deleteBranch,
+        checkoutBranch,
+        mergeBranch,
+        abortMerge,
+        stageFile,
+        unstageFile,
+        clearIndex,
+        pushStash,
+        applyStash,
+        dropStash,
+        replaceRepository,
+    } = useGitRepository(savedFileSystem);
+
+    const { importRepository, exportBundle, exportPatchSeries } = useGitInterop({
+        branches,
+        currentBranch,
+        head,
+        getCommit,
+        replaceRepository,
+    });
+
+    const { exportWorkingDiff, exportCommitDiff, applyPatch } = usePatches({ savedFileSystem, getCommit });
 
     // --- Global Event Listeners ---
     useEffect(() => {
@@ -208,32 +205,32 @@ const App: React.FC = () => {
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [activeFileId, handleSaveFile, contextMenu, isCommandPaletteOpen]);
 
-    const handleOpenFile = useCallback((file: any) => {
-        setDiffFile(null);
+    const handleOpenFile = useCallback((file: any, selection?: TextSelection) => {
+        setHistoryFile(null);
+        setReveal(selection ? { fileId: file.id, ...selection } : null);
         openFile(file);
     }, [openFile]);
 
     const handleCloseFile = useCallback((e: React.MouseEvent, fileIdToClose: string) => {
         e.stopPropagation();
-        if (diffFile?.id === fileIdToClose) {
-            setDiffFile(null);
-        }
         closeFile(fileIdToClose);
-    }, [diffFile, closeFile]);
+    }, [closeFile]);
 
     const handleCodeChangeLocal = useCallback((fileId: string, newContent: string) => {
         handleCodeChange(fileId, newContent);
         updateFile(fileId, { content: newContent, isDirty: true });
     }, [handleCodeChange, updateFile]);
 
-    const handleSaveFileLocal = useCallback(() => {
-        if (!activeFileId) return;
-        const success = handleSaveFile(activeFileId);
-        if (success) {
-            updateFile(activeFileId, { isDirty: false });
-            addToHistory('output', `File saved successfully`);
+    // Edits made outside the editor (terminal, discard, diff view) get an undo step of their own,
+    // so undoing in the editor does not throw them away. Reads the latest tree, as terminal
+    // commands run one after another before a render.
+    const handleCommandEdit = useCallback((fileId: string, newContent: string) => {
+        const file = findFileByIdRecursive(getFileSystem(), fileId);
+        if (file && file.content !== newContent) {
+            recordEdit(fileId, { content: file.content, selectionStart: 0, selectionEnd: 0 }, 'command');
         }
-    }, [activeFileId, handleSaveFile, updateFile, addToHistory]);
+        handleCodeChangeLocal(fileId, newContent);
+    }, [findFileByIdRecursive, getFileSystem, recordEdit, handleCodeChangeLocal]);
 
     const handleNewItemLocal = useCallback((parentId: string | null, type: 'file' | 'folder', name?: string) => {
         const newNode = handleNewItem(parentId, type, name);
@@ -254,8 +251,8 @@ const App: React.FC = () => {
         return success;
     }, [handleRenameNode, openFiles, updateFile]);
 
-    const handleDeleteNodeLocal = useCallback((nodeId: string) => {
-        const deletedFileIds = handleDeleteNode(nodeId);
+    const handleDeleteNodeLocal = useCallback((nodeId: string, confirmDelete: boolean = true) => {
+        const deletedFileIds = handleDeleteNode(nodeId, confirmDelete);
         if (deletedFileIds) {
             // Close any deleted files that are open
             deletedFileIds.forEach(fileId => {
@@ -278,28 +275,357 @@ const App: React.FC = () => {
         return moveNode(nodeId, targetParentId);
     }, [moveNode]);
 
-    const handleShowDiff = useCallback((file: any) => {
+    const terminalFileOperations: TerminalFileOperations = useMemo(() => ({
+        createNode: (parentId, type, name) => handleNewItem(parentId, type, name),
+        deleteNode: (nodeId) => handleDeleteNodeLocal(nodeId, false),
+        moveNode: handleMoveNode,
+        renameNode: handleRenameNodeLocal,
+        copyNode: (nodeId, targetParentId, newName) => duplicateNode(nodeId, targetParentId, newName),
+        writeFile: handleCommandEdit,
+        getFileSystem,
+    }), [handleNewItem, handleDeleteNodeLocal, handleMoveNode, handleRenameNodeLocal, duplicateNode, handleCommandEdit, getFileSystem]);
+
+    const {
+        sessions: terminalSessions,
+        activeSessionId: activeTerminalId,
+        panes: terminalPanes,
+        isSplit: isTerminalSplit,
+        panelHeight: terminalHeight,
+        scrollback: terminalScrollback,
+        newSession: newTerminal,
+        activateSession: activateTerminal,
+        closeSession: closeTerminal,
+        renameSession: renameTerminal,
+        toggleSplit: toggleTerminalSplit,
+        setPanelHeight: setTerminalHeight,
+        setScrollback: setTerminalScrollback,
+        registerPrinter: registerTerminalPrinter,
+        printToActiveSession: printToTerminal,
+    } = useTerminalSessions();
+
+    const handleSaveFileLocal = useCallback(() => {
+        if (!activeFileId) return;
+        const success = handleSaveFile(activeFileId);
+        if (success) {
+            updateFile(activeFileId, { isDirty: false });
+            printToTerminal(`File saved successfully`);
+        }
+    }, [activeFileId, handleSaveFile, updateFile, printToTerminal]);
+
+    // Working tree against HEAD, for the Git view, the explorer badges and the status bar
+    const workingChanges = useMemo(() => diffTrees(savedFileSystem, fileSystem), [savedFileSystem, fileSystem]);
+    const hasUncommittedChanges = workingChanges.length > 0;
+
+    // Swaps in a new HEAD and working tree (checkout, merge) and refreshes the open tabs
+    const loadTree = useCallback((head: FileSystemNode[], working: FileSystemNode[] = head) => {
+        checkoutTree(head, working);
+        reloadFiles(fileId => findFileByIdRecursive(working, fileId));
+    }, [checkoutTree, reloadFiles]);
+
+    const handleCommit = useCallback((fileIds: string[], message: string) => {
+        if (mergeState) {
+            const unresolved = mergeState.conflicts
+                .map(fileId => findFileByIdRecursive(getFileSystem(), fileId))
+                .filter((file): file is File => !!file && hasConflictMarkers(file.content));
+            if (unresolved.length > 0) {
+                alert(`Resolve the conflicts in ${unresolved.map(f => f.name).join(', ')} before committing`);
+                return;
+            }
+            // The merge commit records the whole merged tree; tabs reload from the working
+            // tree as the commit left it, not from the render this callback was made in
+            commit(commitFiles(), message);
+            const working = getFileSystem();
+            reloadFiles(fileId => findFileByIdRecursive(working, fileId));
+            return;
+        }
+
+        // Commit what is staged, which may be only part of a file's working changes;
+        // staged deletions (null) have no content and are dropped from HEAD
+        const staged: Record<string, string> = Object.fromEntries(fileIds
+            .filter(fileId => typeof index[fileId] === 'string')
+            .map(fileId => [fileId, index[fileId]]));
+        const tree = commitFiles(fileIds, staged);
+        commit(tree, message);
+        fileIds.forEach(fileId => {
+            const file = findFileByIdRecursive(fileSystem, fileId);
+            if (isFileOpen(fileId) && file?.content === staged[fileId]) {
+                updateFile(fileId, { isDirty: false, gitStatus: null });
+            }
+        });
+    }, [mergeState, index, fileSystem, getFileSystem, commitFiles, commit, reloadFiles, isFileOpen, updateFile]);
+
+    const handleDiscardAll = useCallback(() => {
+        loadTree(savedFileSystem);
+        clearIndex();
+    }, [loadTree, savedFileSystem, clearIndex]);
+
+    const handleCheckoutBranch = useCallback((name: string) => {
+        if (name === currentBranch) return;
+        // Like git, never overwrite local changes silently: stash them or stay put
+        if (hasUncommittedChanges) {
+            if (!window.confirm(`You have uncommitted changes. Stash them and switch to '${name}'?`)) return;
+            pushStash(fileSystem);
+        }
+        const tree = checkoutBranch(name);
+        if (tree) loadTree(tree);
+    }, [currentBranch, hasUncommittedChanges, fileSystem, pushStash, checkoutBranch, loadTree]);
+
+    const handleMergeBranch = useCallback((name: string) => {
+        if (hasUncommittedChanges) {
+            alert('Commit or stash your changes before merging');
+            return;
+        }
+        const result = mergeBranch(name);
+        if (!result) return;
+
+        if (result.type === 'up-to-date') {
+            alert(`Already up to date with '${name}'`);
+        } else if (result.type === 'conflict') {
+            // HEAD stays put; the merged files wait in the working tree until committed
+            loadTree(savedFileSystem, result.tree);
+        } else {
+            loadTree(result.tree);
+        }
+    }, [hasUncommittedChanges, mergeBranch, savedFileSystem, loadTree]);
+
+    const handleAbortMerge = useCallback(() => {
+        const tree = abortMerge();
+        if (tree) loadTree(tree);
+    }, [abortMerge, loadTree]);
+
+    const handleStashPush = useCallback((working: FileSystemNode[], message?: string) => {
+        const stash = pushStash(working, message);
+        if (stash) loadTree(savedFileSystem);
+        return stash;
+    }, [pushStash, loadTree, savedFileSystem]);
+
+    // Pop only drops the stash when it applied cleanly, as git does
+    const handleStashApply = useCallback((n: number, working: FileSystemNode[], drop: boolean): GitStashApplyResult | null => {
+        const result = applyStash(n, working);
+        if (!result) return null;
+
+        loadTree(savedFileSystem, result.tree);
+        if (drop && result.conflicts.length === 0) dropStash(n);
+        return {
+            stash: result.stash,
+            conflicts: result.conflicts.map(fileId => findFileByIdRecursive(result.tree, fileId)?.name ?? fileId),
+        };
+    }, [applyStash, dropStash, loadTree, savedFileSystem]);
+
+    useGitTerminalCommands({
+        stashes,
+        pushStash: handleStashPush,
+        applyStash: handleStashApply,
+        dropStash,
+    });
+
+    // `source` is a folder holding a .git directory, or a bundle file
+    const handleImportRepository = useCallback(async (source: 'folder' | 'bundle') => {
+        // Pick first: browsers only open the file picker straight from a click
+        const files = await pickFiles(source === 'folder');
+        if (files.length === 0) return;
+
+        const warning = hasUncommittedChanges ? ' Your uncommitted changes will be lost.' : '';
+        if (!window.confirm(`Importing replaces the project files, branches, history and stashes.${warning} Continue?`)) return;
+        try {
+            const { repository, tree } = await importRepository(files);
+            loadTree(tree);
+            const notes = [
+                `Imported ${repository.commits.length} commit${repository.commits.length !== 1 ? 's' : ''} on ${Object.keys(repository.branches).length} branch(es); checked out '${repository.currentBranch}'.`,
+                repository.truncated && 'Older history was left out.',
+                repository.droppedBranches.length > 0 && `Branches left out with that history: ${repository.droppedBranches.join(', ')}`,
+                repository.skipped.length > 0 && `Skipped binary files, symlinks and submodules: ${repository.skipped.join(', ')}`,
+            ];
+            alert(notes.filter(Boolean).join('\n'));
+        } catch (error) {
+            alert(`Could not import the repository: ${error instanceof Error ? error.message : error}`);
+        }
+    }, [hasUncommittedChanges, importRepository, loadTree]);
+
+    const handleExportBundle = useCallback(() => {
+        exportBundle('nexus-code.bundle');
+    }, [exportBundle]);
+
+    const handleExportPatches = useCallback(() => {
+        const count = window.prompt('Number of commits to export, counting back from HEAD:', '1');
+        if (count === null) return;
+        if (!(Number(count) >= 1)) {
+            alert('Enter a number of commits (1 or more)');
+            return;
+        }
+        if (exportPatchSeries('nexus-code.patch', Math.floor(Number(count))) === 0) {
+            alert('There are no commits to export');
+        }
+    }, [exportPatchSeries]);
+
+    // A commit's changes, or the working tree's when no commit is given
+    const handleExportDiff = useCallback((commitId?: string) => {
+        const exported = commitId
+            ? exportCommitDiff(`${shortCommitId(commitId)}.diff`, commitId)
+            : exportWorkingDiff('nexus-code.diff', fileSystem);
+        if (!exported) alert('There are no changes to export');
+    }, [exportCommitDiff, exportWorkingDiff, fileSystem]);
+
+    const handleApplyPatch = useCallback((text: string) => {
+        try {
+            const { tree, files } = applyPatch(text, fileSystem);
+            if (tree !== fileSystem) loadTree(savedFileSystem, tree);
+            return files;
+        } catch (error) {
+            alert(`Could not apply the patch: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }, [applyPatch, fileSystem, savedFileSystem, loadTree]);
+
+    // Each file also gets an undo step in the editor; the whole replace is undone from the search view
+    const handleReplaceInFiles = useCallback((edits: { fileId: string; content: string }[], matches: number) => {
+        const files = edits.flatMap(({ fileId, content }) => {
+            const file = findFileByIdRecursive(fileSystem, fileId);
+            return file && file.content !== content ? [{ fileId, before: file.content, after: content }] : [];
+        });
+        if (files.length === 0) return;
+        files.forEach(({ fileId, before, after }) => {
+            recordEdit(fileId, { content: before, selectionStart: 0, selectionEnd: 0 }, 'command');
+            handleCodeChangeLocal(fileId, after);
+        });
+        setLastReplace({ matches, files });
+    }, [fileSystem, findFileByIdRecursive, recordEdit, handleCodeChangeLocal]);
+
+    const handleUndoReplace = useCallback(() => {
+        if (!lastReplace) return;
+        const edited = lastReplace.files.filter(({ fileId, after }) => findFileByIdRecursive(fileSystem, fileId)?.content !== after);
+        if (edited.length > 0) {
+            const names = edited.map(({ fileId }) => findFileByIdRecursive(fileSystem, fileId)?.name ?? fileId).join(', ');
+            if (!window.confirm(`${names} changed after the replace. Undo anyway and lose those changes?`)) return;
+        }
+        lastReplace.files.forEach(({ fileId, before }) => {
+            const file = findFileByIdRecursive(fileSystem, fileId);
+            if (!file) return;
+            recordEdit(fileId, { content: file.content, selectionStart: 0, selectionEnd: 0 }, 'command');
+            handleCodeChangeLocal(fileId, before);
+        });
+        setLastReplace(null);
+    }, [lastReplace, fileSystem, findFileByIdRecursive, recordEdit, handleCodeChangeLocal]);
+
+    const commitLog = useMemo(() => getLog(), [getLog]);
+
+    // Revision tabs are snapshots, not part of the working tree
+    const openFileIds = useMemo(() => openFiles.filter(f => !f.revision).map(f => f.id), [openFiles]);
+
+    const handleOpenDiff = useCallback((left: DiffSource, right: DiffSource) => {
+        setHistoryFile(null);
+        openDiff(left, right);
+    }, [openDiff]);
+
+    const handleActivateDiff = useCallback((diffId: string) => {
+        setHistoryFile(null);
+        setActiveDiffId(diffId);
+    }, [setActiveDiffId]);
+
+    const handleShowDiff = useCallback((file: File) => {
+        handleOpenDiff({ kind: 'head', fileId: file.id }, { kind: 'working', fileId: file.id });
+    }, [handleOpenDiff]);
+
+    const handleCompareFiles = useCallback((left: File, right: File) => {
+        handleOpenDiff({ kind: 'working', fileId: left.id }, { kind: 'working', fileId: right.id });
+    }, [handleOpenDiff]);
+
+    const handleCompareWithClipboard = useCallback(async (file: File) => {
+        try {
+            const content = await navigator.clipboard.readText();
+            handleOpenDiff({ kind: 'text', id: generateId(), label: 'Clipboard', content }, { kind: 'working', fileId: file.id });
+        } catch {
+            alert('Could not read the clipboard. Allow clipboard access and try again.');
+        }
+    }, [handleOpenDiff]);
+
+    const handleShowHistory = useCallback((file: File) => {
         setActiveFileId(null);
-        setDiffFile(file);
-    }, [setActiveFileId]);
+        setActiveDiffId(null);
+        setHistoryFile(file);
+    }, [setActiveFileId, setActiveDiffId]);
+
+    const historyRevisions = useMemo(() => historyFile ? getFileHistory(historyFile.id) : [], [historyFile, getFileHistory]);
+
+    const handleOpenHistoryRevision = useCallback((commitId: string) => {
+        const file = historyFile && getFileAtRevision(commitId, historyFile.id);
+        if (file) handleOpenFile(file);
+    }, [historyFile, getFileAtRevision, handleOpenFile]);
+
+    const handleCompareHistoryRevisions = useCallback((oldCommitId: string, newCommitId: string) => {
+        if (!historyFile) return;
+        handleOpenDiff(
+            { kind: 'revision', fileId: historyFile.id, commitId: oldCommitId },
+            { kind: 'revision', fileId: historyFile.id, commitId: newCommitId },
+        );
+    }, [historyFile, handleOpenDiff]);
+
+    // The text and title of one side of a comparison. Working tree sides follow the files as
+    // they are edited; a file missing on one side compares as empty.
+    const resolveDiffSource = useCallback((source: DiffSource): { label: string; content: string; file: File | null } => {
+        if (source.kind === 'text') return { label: source.label, content: source.content, file: null };
+        const working = findFileByIdRecursive(fileSystem, source.fileId);
+        if (source.kind === 'working') {
+            return { label: working?.name ?? '(deleted)', content: working?.content ?? '', file: working };
+        }
+        const file = source.kind === 'head'
+            ? findFileByIdRecursive(savedFileSystem, source.fileId)
+            : getFileAtRevision(source.commitId, source.fileId);
+        const name = file?.name ?? working?.name ?? '(deleted)';
+        const label = `${name} (${source.kind === 'head' ? 'HEAD' : shortCommitId(source.commitId)})`;
+        return { label, content: file?.content ?? '', file };
+    }, [fileSystem, savedFileSystem, findFileByIdRecursive, getFileAtRevision]);
+
+    const activeDiff = useMemo(() => {
+        const tab = diffTabs.find(t => t.id === activeDiffId);
+        return tab ? { tab, left: resolveDiffSource(tab.left), right: resolveDiffSource(tab.right) } : null;
+    }, [diffTabs, activeDiffId, resolveDiffSource]);
 
-    const originalFileForDiff = useMemo(() => {
-        if (!diffFile || diffFile.gitStatus === 'A' || diffFile.gitStatus === 'U') return null;
-        return findFileByIdRecursive(savedFileSystem, diffFile.id);
-    }, [diffFile, savedFileSystem]);
+    const activeFile = getActiveFile();
 
-    const changedFiles = useMemo(() => getGitStatus(), [getGitStatus]);
+    // The text blamed: the active file as it was when typing last paused, so the diff
+    // against HEAD is not redone on every keystroke
+    const [blameSource, setBlameSource] = useState<{ fileId: string; content: string } | null>(null);
+    useEffect(() => {
+        if (!isBlameVisible || !activeFile) return;
+        const timer = setTimeout(() => setBlameSource({ fileId: activeFile.id, content: activeFile.content }), BLAME_DELAY);
+        return () => clearTimeout(timer);
+    }, [isBlameVisible, activeFile?.id, activeFile?.content]);
+
+    // Revision tabs are blamed from their own commit; their id is "<commit>:<file id>".
+    // A file just switched to is blamed right away, as it stood then.
+    const activeBlame = useMemo(() => {
+        if (!isBlameVisible || !activeFile) return null;
+        const content = blameSource?.fileId === activeFile.id ? blameSource.content : activeFile.content;
+        return activeFile.revision
+            ? blameFile(activeFile.id.slice(activeFile.revision.length + 1), content, activeFile.revision)
+            : blameFile(activeFile.id, content);
+    }, [isBlameVisible, activeFile?.id, activeFile?.revision, blameSource, blameFile]);
 
     const commands: Command[] = useMemo(() => [
         { id: 'toggleTheme', label: 'Theme: Toggle Light/Dark Mode', action: toggleTheme, keywords: 'color theme mode dark light change' },
         { id: 'toggleSidebar', label: 'View: Toggle Sidebar', action: () => setSidebarVisible(v => !v), keywords: 'explorer files hide show panel' },
         { id: 'toggleTerminal', label: 'View: Toggle Terminal', action: () => setTerminalOpen(v => !v), keywords: 'console command line cmd' },
+        { id: 'newTerminal', label: 'Terminal: Create New Terminal', action: () => { newTerminal(); setTerminalOpen(true); }, keywords: 'console shell instance tab' },
+        { id: 'splitTerminal', label: 'Terminal: Split Terminal', action: () => { toggleTerminalSplit(); setTerminalOpen(true); }, keywords: 'console shell pane side' },
+        { id: 'terminalScrollback', label: 'Terminal: Set Scrollback Size', action: () => {
+            const lines = window.prompt('Lines of scrollback kept per terminal:', String(terminalScrollback));
+            if (lines !== null) setTerminalScrollback(Number(lines));
+        }, keywords: 'console history buffer lines limit' },
         { id: 'newFile', label: 'File: New File (Root)', action: () => handleNewItemLocal(null, 'file'), keywords: 'create add' },
         { id: 'saveFile', label: 'File: Save Active File', action: handleSaveFileLocal, keywords: 'persist write disk' },
+        { id: 'gitToggleBlame', label: 'Git: Toggle Blame Annotations', action: () => setBlameVisible(v => !v), keywords: 'annotate author line history gutter' },
+        { id: 'gitOpenChanges', label: 'Git: Open Changes', action: () => { if (activeFile && !activeFile.revision) handleShowDiff(activeFile); }, keywords: 'diff compare head revert' },
+        { id: 'compareClipboard', label: 'File: Compare Active File with Clipboard', action: () => { if (activeFile && !activeFile.revision) handleCompareWithClipboard(activeFile); }, keywords: 'diff paste' },
+        { id: 'gitFileHistory', label: 'Git: Show File History', action: () => { if (activeFile && !activeFile.revision) handleShowHistory(activeFile); }, keywords: 'log timeline revisions' },
+        { id: 'gitImportFolder', label: 'Git: Import Repository from Folder', action: () => handleImportRepository('folder'), keywords: 'clone open .git load' },
+        { id: 'gitImportBundle', label: 'Git: Import Repository from Bundle', action: () => handleImportRepository('bundle'), keywords: 'clone open load' },
+        { id: 'gitExportBundle', label: 'Git: Export Bundle', action: handleExportBundle, keywords: 'download save repository history' },
+        { id: 'gitExportPatches', label: 'Git: Export Patch Series', action: handleExportPatches, keywords: 'download format-patch mbox am' },
+        { id: 'gitExportDiff', label: 'Git: Export Changes as Diff', action: () => handleExportDiff(), keywords: 'download patch unified share' },
+        { id: 'gitApplyPatch', label: 'Git: Apply Patch', action: () => setPatchModalOpen(true), keywords: 'diff paste upload unified' },
         { id: 'showAbout', label: 'Help: About Nexus Code', action: () => setAboutModalOpen(true), keywords: 'version info help' },
-    ], [toggleTheme, handleNewItemLocal, handleSaveFileLocal]);
-
-    const activeFile = getActiveFile();
+    ], [toggleTheme, handleNewItemLocal, handleSaveFileLocal, newTerminal, toggleTerminalSplit, terminalScrollback, setTerminalScrollback, handleImportRepository, handleExportBundle, handleExportPatches, handleExportDiff, activeFile, handleShowHistory, handleShowDiff, handleCompareWithClipboard]);
 
     return (
         <div 
@@ -333,6 +659,10 @@ const App: React.FC = () => {
                                 onDelete={handleDeleteNodeLocal}
                                 onDuplicate={handleDuplicateNode}
                                 onMove={handleMoveNode}
+                                onShowHistory={handleShowHistory}
+                                onCompare={handleCompareFiles}
+                                onCompareWithClipboard={handleCompareWithClipboard}
+                                changes={workingChanges}
                             />
                         )}
                         {activeView === ActivityBarView.SEARCH && (
@@ -340,15 +670,50 @@ const App: React.FC = () => {
                                 fileSystem={fileSystem}
                                 theme={theme}
                                 onFileOpen={handleOpenFile}
+                                openFileIds={openFileIds}
+                                onReplace={handleReplaceInFiles}
+                                lastReplace={lastReplace}
+                                onUndoReplace={handleUndoReplace}
                             />
                         )}
                         {activeView === ActivityBarView.GIT && (
                             <GitView
                                 fileSystem={fileSystem}
                                 savedFileSystem={savedFileSystem}
+                                changes={workingChanges}
                                 theme={theme}
                                 onFileOpen={handleOpenFile}
-                                onResetToSaved={resetToSaved}
+                                onShowDiff={handleShowDiff}
+                                onResetToSaved={handleDiscardAll}
+                                log={commitLog}
+                                author={author}
+                                onAuthorChange={setAuthor}
+                                onCommit={handleCommit}
+                                getCommitChanges={getCommitChanges}
+                                getFileAtRevision={getFileAtRevision}
+                                branches={branches}
+                                currentBranch={currentBranch}
+                                mergeState={mergeState}
+                                onCreateBranch={createBranch}
+                                onRenameBranch={renameBranch}
+                                onDeleteBranch={deleteBranch}
+                                onCheckoutBranch={handleCheckoutBranch}
+                                onMergeBranch={handleMergeBranch}
+                                onAbortMerge={handleAbortMerge}
+                                index={index}
+                                onStage={stageFile}
+                                onUnstage={unstageFile}
+                                onDiscard={handleCommandEdit}
+                                onRestore={fileId => restoreFiles([fileId])}
+                                stashes={stashes}
+                                onStashPush={message => handleStashPush(fileSystem, message)}
+                                onStashApply={(n, drop) => handleStashApply(n, fileSystem, drop)}
+                                onStashDrop={dropStash}
+                                onImportRepository={handleImportRepository}
+                                onExportBundle={handleExportBundle}
+                                onExportPatches={handleExportPatches}
+                                onExportDiff={handleExportDiff}
+                                onApplyPatch={() => setPatchModalOpen(true)}
                             />
                         )}
                         {activeView === ActivityBarView.DEBUG && (
@@ -371,13 +736,13 @@ const App: React.FC = () => {
                                 <div
                                     key={file.id}
                                     role="tab"
-                                    aria-selected={activeFileId === file.id && !diffFile}
+                                    aria-selected={activeFileId === file.id && !activeDiff}
                                     aria-controls={`editor-panel-${file.id}`}
                                     onClick={() => handleOpenFile(file)}
                                     onMouseEnter={() => setHoveredTabId(file.id)}
                                     onMouseLeave={() => setHoveredTabId(null)}
                                     className={`flex items-center px-4 py-2 cursor-pointer border-r border-r-dark-bg dark:border-r-dark-bg ${
-                                        activeFileId === file.id && !diffFile
+                                        activeFileId === file.id && !activeDiff
                                             ? 'bg-light-bg-alt dark:bg-dark-bg-alt'
                                             : 'hover:bg-light-bg-alt/50 dark:hover:bg-dark-bg-alt/50 text-dark-text-alt'
                                     }`}
@@ -392,19 +757,65 @@ const App: React.FC = () => {
                                     )}
                                 </div>
                             ))}
+                            {diffTabs.map(tab => {
+                                const title = `${resolveDiffSource(tab.left).label} ↔ ${resolveDiffSource(tab.right).label}`;
+                                return (
+                                    <div
+                                        key={tab.id}
+                                        role="tab"
+                                        aria-selected={activeDiffId === tab.id && !historyFile}
+                                        onClick={() => handleActivateDiff(tab.id)}
+                                        title={title}
+                                        className={`flex items-center px-4 py-2 cursor-pointer border-r border-r-dark-bg dark:border-r-dark-bg ${
+                                            activeDiffId === tab.id && !historyFile
+                                                ? 'bg-light-bg-alt dark:bg-dark-bg-alt'
+                                                : 'hover:bg-light-bg-alt/50 dark:hover:bg-dark-bg-alt/50 text-dark-text-alt'
+                                        }`}
+                                    >
+                                        <span className="pr-4 max-w-xs truncate">{title}</span>
+                                        <button onClick={(e) => { e.stopPropagation(); closeDiff(tab.id); }} aria-label={`Close ${title}`} className="p-0.5 rounded-full hover:bg-dark-accent/20">
+                                            <CloseIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
                         </div>
 
                         <div className="flex-1 relative">
-                        {diffFile ? (
+                        {historyFile ? (
+                            <FileHistory
+                                key={historyFile.id}
+                                fileName={historyFile.name}
+                                revisions={historyRevisions}
+                                theme={theme}
+                                onOpenRevision={handleOpenHistoryRevision}
+                                onCompareRevisions={handleCompareHistoryRevisions}
+                                onClose={() => setHistoryFile(null)}
+                            />
+                        ) : activeDiff ? (
                             <DiffViewer
-                                    key={diffFile.id}
-                                    oldContent={diffFile.gitStatus === 'A' ? '' : originalFileForDiff?.content ?? ''}
-                                    newContent={diffFile.content}
-                                    fileName={diffFile.name}
+                                    key={activeDiff.tab.id}
+                                    oldContent={activeDiff.left.content}
+                                    newContent={activeDiff.right.content}
+                                    fileName={`${activeDiff.left.label} ↔ ${activeDiff.right.label}`}
+                                    language={(activeDiff.right.file ?? activeDiff.left.file)?.language}
                                     theme={theme}
+                                    onChange={activeDiff.tab.right.kind === 'working' && activeDiff.right.file
+                                        ? content => handleCommandEdit(activeDiff.right.file!.id, content)
+                                        : undefined}
                             />
                         ) : activeFile ? (
-                                <CodeEditor key={activeFile.id} file={activeFile} onCodeChange={handleCodeChangeLocal} theme={theme} />
+                                <CodeEditor
+                                    key={activeFile.id}
+                                    file={activeFile}
+                                    onCodeChange={handleCodeChangeLocal}
+                                    onRecordEdit={recordEdit}
+                                    onUndo={undoEdit}
+                                    onRedo={redoEdit}
+                                    theme={theme}
+                                    blame={activeBlame}
+                                    reveal={reveal?.fileId === activeFile.id ? reveal : null}
+                                />
                             ) : (
                                 <div className="flex items-center justify-center h-full text-dark-text-alt dark:text-dark-text-alt">
                                     <p>Select a file to begin editing.</p>
@@ -414,22 +825,40 @@ const App: React.FC = () => {
                     </div>
 
                     {/* Terminal */}
-                    {isTerminalOpen && (
-                        <div className={`flex-shrink-0 h-64 bg-light-bg dark:bg-dark-bg transition-all duration-300`}>
-                             <IntegratedTerminal history={terminalHistory} onCommand={executeCommand} isTerminalOpen={isTerminalOpen} />
-                        </div>
-                    )}
+                    <TerminalPanel
+                        isOpen={isTerminalOpen}
+                        sessions={terminalSessions}
+                        activeSessionId={activeTerminalId}
+                        panes={terminalPanes}
+                        isSplit={isTerminalSplit}
+                        height={terminalHeight}
+                        scrollback={terminalScrollback}
+                        fileSystem={fileSystem}
+                        onFileOpen={openFile}
+                        fileOperations={terminalFileOperations}
+                        onNewSession={newTerminal}
+                        onActivateSession={activateTerminal}
+                        onCloseSession={closeTerminal}
+                        onRenameSession={renameTerminal}
+                        onToggleSplit={toggleTerminalSplit}
+                        onResize={setTerminalHeight}
+                        onClosePanel={() => setTerminalOpen(false)}
+                        registerPrinter={registerTerminalPrinter}
+                    />
 
                     {/* Status Bar */}
                     <footer className="flex-shrink-0 h-6 bg-dark-accent flex items-center justify-between px-4 text-xs text-white">
                         <div className="flex items-center space-x-4">
                             <div className="flex items-center space-x-1">
                                 <GitIcon className="w-4 h-4" />
-                                <span>main</span>
-                                {changedFiles.length > 0 && <span className="ml-2">({changedFiles.length} changes)</span>}
+                                <span>{currentBranch}{mergeState && ' (merging)'}</span>
+                                {workingChanges.length > 0 && <span className="ml-2">({workingChanges.length} changes)</span>}
                             </div>
                         </div>
                         <div className="flex items-center space-x-4">
+                            <button onClick={() => setBlameVisible(v => !v)} aria-pressed={isBlameVisible} className="hover:bg-white/10 px-2 rounded">
+                                Blame
+                            </button>
                             <span>Ln {activeFile ? activeFile.content.split('\n').length : 0}, Col 0</span>
                             <button onClick={() => setTerminalOpen(!isTerminalOpen)} aria-pressed={isTerminalOpen} className="flex items-center space-x-1 hover:bg-white/10 px-2 rounded">
                                 <TerminalIcon className="w-4 h-4" />
@@ -446,6 +875,7 @@ const App: React.FC = () => {
                 commands={commands}
             />
             <AboutModal isOpen={isAboutModalOpen} onClose={() => setAboutModalOpen(false)} />
+            <ApplyPatchModal isOpen={isPatchModalOpen} onClose={() => setPatchModalOpen(false)} onApply={handleApplyPatch} />
         </div>
     );
 };
@@ -1,22 +1,35 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { File, Theme } from '../types';
+import { File, Theme, EditKind, EditSnapshot, GitCommit, TextSelection } from '../types';
 import SyntaxHighlighter from 'react-syntax-highlighter';
 import { atomOneDark, atomOneLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
 
 interface CodeEditorProps {
   file: File;
   onCodeChange: (fileId: string, newContent: string) => void;
+  onRecordEdit: (fileId: string, before: EditSnapshot, kind: EditKind) => void;
+  onUndo: (fileId: string, current: EditSnapshot) => EditSnapshot | null;
+  onRedo: (fileId: string, current: EditSnapshot) => EditSnapshot | null;
   theme: Theme;
+  // Commit that last changed each line (null: not committed yet); shows the blame gutter
+  blame?: (GitCommit | null)[] | null;
+  // Selected and scrolled into view whenever it changes (a search result)
+  reveal?: TextSelection | null;
 }
 
+const BLAME_GUTTER_WIDTH = 200;
+
+const formatBlameTooltip = (commit: GitCommit | null) => commit
+  ? `${commit.id.slice(0, 7)} · ${commit.author}\n${new Date(commit.timestamp).toLocaleString()}\n\n${commit.message}`
+  : 'Not committed yet';
+
 interface Cursor {
   line: number;
   column: number;
   id: string;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, onRecordEdit, onUndo, onRedo, theme, blame, reveal }) => {
   const [code, setCode] = useState(file.content);
   const [cursors, setCursors] = useState<Cursor[]>([{ line: 0, column: 0, id: 'primary' }]);
   const [activeCursor, setActiveCursor] = useState<string>('primary');
@@ -27,7 +40,10 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
+  const blameRef = useRef<HTMLDivElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
+  // Selection as it was before the pending change, used for undo snapshots
+  const selectionRef = useRef({ start: 0, end: 0 });
 
   // Common programming keywords for autocomplete
   const commonKeywords = [
@@ -58,10 +74,54 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
     ).slice(0, 10);
   }, [getKeywords]);
 
-  const handleCodeChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newCode = e.target.value;
+  const trackSelection = () => {
+    if (!textareaRef.current) return;
+    selectionRef.current = {
+      start: textareaRef.current.selectionStart,
+      end: textareaRef.current.selectionEnd,
+    };
+  };
+
+  const setSelection = (start: number, end: number = start) => {
+    selectionRef.current = { start, end };
+    setTimeout(() => {
+      if (textareaRef.current) {
+        textareaRef.current.selectionStart = start;
+        textareaRef.current.selectionEnd = end;
+      }
+    }, 0);
+  };
+
+  // Changes made outside the editor (project-wide replace) replace the buffer
+  useEffect(() => {
+    if (file.content !== code) setCode(file.content);
+  }, [file.content]);
+
+  const currentSnapshot = (): EditSnapshot => ({
+    content: code,
+    selectionStart: selectionRef.current.start,
+    selectionEnd: selectionRef.current.end,
+  });
+
+  // Every change to the buffer goes through here so it lands in the undo history
+  const applyEdit = (newCode: string, kind: EditKind) => {
+    onRecordEdit(file.id, currentSnapshot(), kind);
     setCode(newCode);
     onCodeChange(file.id, newCode);
+  };
+
+  const restoreSnapshot = (snapshot: EditSnapshot | null) => {
+    if (!snapshot) return;
+    setCode(snapshot.content);
+    onCodeChange(file.id, snapshot.content);
+    setSelection(snapshot.selectionStart, snapshot.selectionEnd);
+    setShowSuggestions(false);
+  };
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const newCode = e.target.value;
+    applyEdit(newCode, newCode.length >= code.length ? 'insert' : 'delete');
+    trackSelection();
     
     // Check for autocomplete trigger
     const cursorPos = e.currentTarget.selectionStart;
@@ -87,21 +147,38 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
       preRef.current.scrollTop = textareaRef.current.scrollTop;
       preRef.current.scrollLeft = textareaRef.current.scrollLeft;
     }
+    if (textareaRef.current && blameRef.current) {
+      blameRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
   }, []);
 
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!reveal || !textarea) return;
+    textarea.focus();
+    setSelection(reveal.start, reveal.end);
+    const line = code.slice(0, reveal.start).split('\n').length - 1;
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2);
+    syncScroll();
+  }, [reveal]);
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    trackSelection();
+    // Files opened at a past commit are read-only; leave navigation and copy to the browser
+    if (file.revision) return;
     if (e.key === 'Tab') {
       e.preventDefault();
       const { selectionStart, selectionEnd, value } = e.currentTarget;
       const newCode = `${value.substring(0, selectionStart)}\t${value.substring(selectionEnd)}`;
-      setCode(newCode);
-      onCodeChange(file.id, newCode);
-      
-      setTimeout(() => {
-        if(textareaRef.current) {
-            textareaRef.current.selectionStart = textareaRef.current.selectionEnd = selectionStart + 1;
-        }
-      }, 0);
+      applyEdit(newCode, 'command');
+      setSelection(selectionStart + 1);
+    } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      restoreSnapshot(e.shiftKey ? onRedo(file.id, currentSnapshot()) : onUndo(file.id, currentSnapshot()));
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
+      e.preventDefault();
+      restoreSnapshot(onRedo(file.id, currentSnapshot()));
     } else if (e.key === 'Enter' && showSuggestions) {
       e.preventDefault();
       if (suggestions.length > 0) {
@@ -141,17 +218,9 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
     const wordStart = beforeCursor.lastIndexOf(' ') + 1;
     const newCode = value.substring(0, wordStart) + suggestion + afterCursor;
     
-    setCode(newCode);
-    onCodeChange(file.id, newCode);
-    
-    setTimeout(() => {
-      if (textareaRef.current) {
-        const newCursorPos = wordStart + suggestion.length;
-        textareaRef.current.selectionStart = newCursorPos;
-        textareaRef.current.selectionEnd = newCursorPos;
-        textareaRef.current.focus();
-      }
-    }, 0);
+    applyEdit(newCode, 'command');
+    setSelection(wordStart + suggestion.length);
+    textareaRef.current.focus();
     
     setShowSuggestions(false);
   };
@@ -167,8 +236,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
     newLines.splice(currentLine + 1, 0, lines[currentLine]);
     
     const newCode = newLines.join('\n');
-    setCode(newCode);
-    onCodeChange(file.id, newCode);
+    applyEdit(newCode, 'command');
   };
 
   const deleteLine = () => {
@@ -181,8 +249,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
     const newLines = lines.filter((_, index) => index !== currentLine);
     const newCode = newLines.join('\n');
     
-    setCode(newCode);
-    onCodeChange(file.id, newCode);
+    applyEdit(newCode, 'command');
+    setSelection(Math.min(selectionStart, newCode.length));
   };
 
   const selectLine = () => {
@@ -274,102 +342,134 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onCodeChange, theme }) =>
 
   return (
     <div className="relative h-full w-full font-mono text-sm">
-      <textarea
-        ref={textareaRef}
-        value={code}
-        onChange={handleCodeChange}
-        onScroll={syncScroll}
-        onKeyDown={handleKeyDown}
-        spellCheck="false"
-        className="absolute top-0 left-0 w-full h-full p-2.5 box-border resize-none border-none bg-transparent outline-none text-transparent leading-relaxed tracking-wide"
-        style={{
-          caretColor: theme === 'dark' ? '#ffffff' : '#000000',
-          fontFamily: 'inherit',
-          fontSize: 'inherit',
-          lineHeight: 'inherit',
-          letterSpacing: 'inherit',
-          paddingLeft: '45px' // Space for line numbers
-        }}
-        aria-label={`Code editor for ${file.name}`}
-      />
-      
-      <SyntaxHighlighter
-        language={file.language}
-        style={codeStyle}
-        showLineNumbers
-        wrapLines={true}
-        customStyle={{
-          width: '100%',
-          height: '100%',
-          margin: 0,
-          padding: '10px',
-          boxSizing: 'border-box',
-          backgroundColor: theme === 'dark' ? '#1e1e1e' : '#f5f5f5',
-          fontFamily: 'inherit',
-          fontSize: 'inherit',
-          lineHeight: 'inherit',
-          letterSpacing: 'inherit',
-          cursor: 'text',
-        }}
-        lineNumberStyle={{
-          minWidth: '30px',
-          paddingRight: '15px',
-          textAlign: 'right',
-          opacity: 0.5,
-          userSelect: 'none',
-        }}
-        ref={preRef as any}
-        onClick={handleClick}
-      >
-        {getFoldedContent()}
-      </SyntaxHighlighter>
-
-      {/* Autocomplete Suggestions */}
-      {showSuggestions && suggestions.length > 0 && (
+      {/* Blame gutter: the commit is shown on the first line of each run it owns */}
+      {blame && (
         <div
-          ref={suggestionsRef}
-          className="absolute bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md shadow-lg max-h-48 overflow-y-auto z-10"
-          style={{
-            top: '50px',
-            left: '45px',
-            minWidth: '200px'
-          }}
+          ref={blameRef}
+          className="absolute top-0 left-0 h-full overflow-hidden py-2.5 text-xs border-r border-dark-accent/20 bg-light-bg-alt dark:bg-dark-bg-alt"
+          style={{ width: BLAME_GUTTER_WIDTH }}
+          aria-label="Blame annotations"
         >
-          {suggestions.map((suggestion, index) => (
-            <div
-              key={suggestion}
-              className={`px-3 py-2 cursor-pointer hover:bg-dark-accent/20 ${
-                index === suggestionIndex ? 'bg-dark-accent/30' : ''
-              }`}
-              onClick={() => insertSuggestion(suggestion)}
-            >
-              <span className="text-dark-text dark:text-dark-text">{suggestion}</span>
-            </div>
-          ))}
+          {code.split('\n').map((_, index) => {
+            const commit = blame[index] ?? null;
+            const startsRun = index === 0 || (blame[index - 1] ?? null)?.id !== commit?.id;
+            return (
+              <div key={index} title={formatBlameTooltip(commit)} className="h-5 px-2 flex items-center space-x-2 truncate text-dark-text-alt">
+                {startsRun && (commit ? (
+                  <>
+                    <span className="font-mono opacity-70">{commit.id.slice(0, 7)}</span>
+                    <span className="truncate">{commit.author}</span>
+                    <span className="ml-auto flex-shrink-0 opacity-70">{new Date(commit.timestamp).toLocaleDateString()}</span>
+                  </>
+                ) : (
+                  <span className="italic">Uncommitted</span>
+                ))}
+              </div>
+            );
+          })}
         </div>
       )}
 
-      {/* Line Folding Controls */}
-      <div className="absolute left-2 top-0 h-full pointer-events-none">
-        {code.split('\n').map((line, index) => {
-          const isFolded = isLineFolded(index);
-          const hasContent = line.trim().length > 0;
+      <div className="absolute top-0 right-0 h-full" style={{ left: blame ? BLAME_GUTTER_WIDTH : 0 }}>
+        <textarea
+          ref={textareaRef}
+          value={code}
+          onChange={handleCodeChange}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          onSelect={trackSelection}
+          readOnly={!!file.revision}
+          spellCheck="false"
+          className="absolute top-0 left-0 w-full h-full p-2.5 box-border resize-none border-none bg-transparent outline-none text-transparent leading-relaxed tracking-wide"
+          style={{
+            caretColor: theme === 'dark' ? '#ffffff' : '#000000',
+            fontFamily: 'inherit',
+            fontSize: 'inherit',
+            lineHeight: 'inherit',
+            letterSpacing: 'inherit',
+            paddingLeft: '45px' // Space for line numbers
+          }}
+          aria-label={`Code editor for ${file.name}`}
+        />
+      
+        <SyntaxHighlighter
+          language={file.language}
+          style={codeStyle}
+          showLineNumbers
+          wrapLines={true}
+          customStyle={{
+            width: '100%',
+            height: '100%',
+            margin: 0,
+            padding: '10px',
+            boxSizing: 'border-box',
+            backgroundColor: theme === 'dark' ? '#1e1e1e' : '#f5f5f5',
+            fontFamily: 'inherit',
+            fontSize: 'inherit',
+            lineHeight: 'inherit',
+            letterSpacing: 'inherit',
+            cursor: 'text',
+          }}
+          lineNumberStyle={{
+            minWidth: '30px',
+            paddingRight: '15px',
+            textAlign: 'right',
+            opacity: 0.5,
+            userSelect: 'none',
+          }}
+          ref={preRef as any}
+          onClick={handleClick}
+        >
+          {getFoldedContent()}
+        </SyntaxHighlighter>
+
+        {/* Autocomplete Suggestions */}
+        {showSuggestions && suggestions.length > 0 && (
+          <div
+            ref={suggestionsRef}
+            className="absolute bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md shadow-lg max-h-48 overflow-y-auto z-10"
+            style={{
+              top: '50px',
+              left: '45px',
+              minWidth: '200px'
+            }}
+          >
+            {suggestions.map((suggestion, index) => (
+              <div
+                key={suggestion}
+                className={`px-3 py-2 cursor-pointer hover:bg-dark-accent/20 ${
+                  index === suggestionIndex ? 'bg-dark-accent/30' : ''
+                }`}
+                onClick={() => insertSuggestion(suggestion)}
+              >
+                <span className="text-dark-text dark:text-dark-text">{suggestion}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Line Folding Controls */}
+        <div className="absolute left-2 top-0 h-full pointer-events-none">
+          {code.split('\n').map((line, index) => {
+            const isFolded = isLineFolded(index);
+            const hasContent = line.trim().length > 0;
           
-          if (!hasContent) return <div key={index} className="h-5" />;
+            if (!hasContent) return <div key={index} className="h-5" />;
           
-          return (
-            <button
-              key={index}
-              onClick={() => toggleLineFold(index)}
-              className={`w-4 h-5 flex items-center justify-center text-xs text-dark-text-alt hover:text-dark-text transition-colors pointer-events-auto ${
-                isFolded ? 'opacity-50' : ''
-              }`}
-              title={isFolded ? 'Expand line' : 'Collapse line'}
-            >
-              {isFolded ? '▶' : '▼'}
-            </button>
-          );
-        })}
+            return (
+              <button
+                key={index}
+                onClick={() => toggleLineFold(index)}
+                className={`w-4 h-5 flex items-center justify-center text-xs text-dark-text-alt hover:text-dark-text transition-colors pointer-events-auto ${
+                  isFolded ? 'opacity-50' : ''
+                }`}
+                title={isFolded ? 'Expand line' : 'Collapse line'}
+              >
+                {isFolded ? '▶' : '▼'}
+              </button>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
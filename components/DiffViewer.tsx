@@ -1,129 +1,480 @@
 
-import React from 'react';
-import { Theme } from '../types';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import SyntaxHighlighter, { createElement } from 'react-syntax-highlighter';
+import { atomOneDark, atomOneLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
+import { Theme, SupportedLanguage } from '../types';
+import { DiffLine, DiffOptions } from '../diff';
+import { useDiff } from '../hooks/useDiff';
 
 interface DiffViewerProps {
   oldContent: string;
   newContent: string;
   fileName: string;
   theme: Theme;
+  // Highlights both sides; plain text without it
+  language?: SupportedLanguage;
+  // Makes the new side editable and adds a revert button to each change; gets the whole new text
+  onChange?: (content: string) => void;
 }
 
-const generateDiff = (oldStr: string, newStr: string) => {
-    const oldLines = oldStr.split('\n');
-    const newLines = newStr.split('\n');
-    
-    if (oldLines.length === 1 && oldLines[0] === '' && oldStr.length === 0) {
-      return newLines.map(line => ({ type: 'add' as const, content: line }));
-    }
+type DiffMode = 'split' | 'inline';
 
-    const dp = Array(oldLines.length + 1).fill(null).map(() => Array(newLines.length + 1).fill(0));
+// Runs of consecutive changed lines, as [start, end) index ranges into the diff
+export const getDiffHunks = (diff: DiffLine[]) => {
+    const hunks: { start: number; end: number }[] = [];
+    diff.forEach((line, index) => {
+        if (line.type === 'common') return;
+        const last = hunks[hunks.length - 1];
+        if (last && last.end === index) last.end = index + 1;
+        else hunks.push({ start: index, end: index + 1 });
+    });
+    return hunks;
+};
 
-    for (let i = oldLines.length - 1; i >= 0; i--) {
-        for (let j = newLines.length - 1; j >= 0; j--) {
-            if (oldLines[i] === newLines[j]) {
-                dp[i][j] = 1 + dp[i + 1][j + 1];
-            } else {
-                dp[i][j] = Math.max(dp[i + 1][j], dp[i][j + 1]);
-            }
+// Rebuilds text from a diff keeping only the changes at `selected` indices:
+// unselected additions are dropped and unselected deletions are kept
+export const applyDiffSelection = (diff: DiffLine[], selected: Set<number>): string => {
+    const lines: string[] = [];
+    diff.forEach((line, index) => {
+        if (line.type === 'common' || (line.type === 'add') === selected.has(index)) {
+            lines.push(line.content);
+        }
+    });
+    return lines.join('\n');
+};
+
+// Unchanged lines kept around each change; longer unchanged runs fold into "expand" rows
+const DIFF_CONTEXT = 3;
+const MIN_FOLDED_LINES = 4;
+
+// Words, runs of whitespace and single punctuation marks: the units of intra-line diffs
+const WORD_PATTERN = /\w+|\s+|[^\w\s]/g;
+const MAX_WORD_PAIRS = 250000;
+
+interface NumberedLine extends DiffLine {
+    oldNumber: number | null;
+    newNumber: number | null;
+    // Character ranges that changed within a modified line
+    changes: [number, number][] | null;
+}
+
+type DiffChunk = { kind: 'lines'; start: number; end: number } | { kind: 'fold'; start: number; end: number };
+
+// Changed character ranges of two versions of a line, by word-level LCS. Null when
+// the lines share too little for the highlight to mean anything.
+const diffWords = (oldText: string, newText: string) => {
+    const a = oldText.match(WORD_PATTERN) ?? [];
+    const b = newText.match(WORD_PATTERN) ?? [];
+    if (a.length * b.length > MAX_WORD_PAIRS) return null;
+
+    const lcs = Array(a.length + 1).fill(null).map(() => Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
         }
     }
 
-    const diff: { type: 'common' | 'add' | 'del', content: string }[] = [];
-    let i = 0, j = 0;
-    while (i < oldLines.length && j < newLines.length) {
-        if (oldLines[i] === newLines[j]) {
-            diff.push({ type: 'common', content: oldLines[i] });
-            i++; j++;
-        } else if (dp[i + 1][j] >= dp[i][j + 1]) {
-            diff.push({ type: 'del', content: oldLines[i] });
-            i++;
+    const oldRanges: [number, number][] = [];
+    const newRanges: [number, number][] = [];
+    const mark = (ranges: [number, number][], start: number, length: number) => {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === start) last[1] += length;
+        else ranges.push([start, start + length]);
+    };
+    let i = 0, j = 0, oldOffset = 0, newOffset = 0, common = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            common += a[i].length;
+            oldOffset += a[i++].length;
+            newOffset += b[j++].length;
+        } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            mark(oldRanges, oldOffset, a[i].length);
+            oldOffset += a[i++].length;
         } else {
-            diff.push({ type: 'add', content: newLines[j] });
-            j++;
+            mark(newRanges, newOffset, b[j].length);
+            newOffset += b[j++].length;
         }
     }
 
-    while (i < oldLines.length) {
-        diff.push({ type: 'del', content: oldLines[i] });
-        i++;
-    }
-    while (j < newLines.length) {
-        diff.push({ type: 'add', content: newLines[j] });
-        j++;
-    }
+    if (common < Math.max(oldText.length, newText.length) * 0.4) return null;
+    return { oldRanges, newRanges };
+};
+
+// Line numbers for every diff line, and intra-line changes for deleted and added lines
+// paired up in order within each block of changes
+const numberLines = (diff: DiffLine[]): NumberedLine[] => {
+    let oldNumber = 1, newNumber = 1;
+    const lines: NumberedLine[] = diff.map(line => ({
+        ...line,
+        oldNumber: line.type !== 'add' ? oldNumber++ : null,
+        newNumber: line.type !== 'del' ? newNumber++ : null,
+        changes: null,
+    }));
+
+    getDiffHunks(diff).forEach(({ start, end }) => {
+        const block = lines.slice(start, end);
+        const deleted = block.filter(line => line.type === 'del');
+        const added = block.filter(line => line.type === 'add');
+        for (let k = 0; k < Math.min(deleted.length, added.length); k++) {
+            const words = diffWords(deleted[k].content, added[k].content);
+            if (!words) continue;
+            deleted[k].changes = words.oldRanges;
+            added[k].changes = words.newRanges;
+        }
+    });
+    return lines;
+};
+
+// Splits the diff into shown lines and folds of unchanged lines far from any change.
+// A diff without changes is shown whole.
+const foldUnchanged = (diff: DiffLine[], expanded: Set<number>): DiffChunk[] => {
+    const hunks = getDiffHunks(diff);
+    if (hunks.length === 0) return diff.length > 0 ? [{ kind: 'lines', start: 0, end: diff.length }] : [];
+
+    const chunks: DiffChunk[] = [];
+    const pushLines = (start: number, end: number) => {
+        if (start >= end) return;
+        const last = chunks[chunks.length - 1];
+        if (last?.kind === 'lines' && last.end === start) last.end = end;
+        else chunks.push({ kind: 'lines', start, end });
+    };
+
+    let position = 0;
+    [...hunks, { start: diff.length, end: diff.length }].forEach(({ start, end }) => {
+        // Unchanged lines from `position` to `start`
+        const foldStart = position === 0 ? 0 : position + DIFF_CONTEXT;
+        const foldEnd = start === diff.length ? diff.length : start - DIFF_CONTEXT;
+        if (foldEnd - foldStart >= MIN_FOLDED_LINES && !expanded.has(foldStart)) {
+            pushLines(position, foldStart);
+            chunks.push({ kind: 'fold', start: foldStart, end: foldEnd });
+            pushLines(foldEnd, end);
+        } else {
+            pushLines(position, end);
+        }
+        position = end;
+    });
+    return chunks;
+};
+
+// Content rendered in place of the <pre>/<code> tags, so rows go straight into our layout
+const Passthrough: React.FC<{ children?: React.ReactNode }> = ({ children }) => <>{children}</>;
 
-    return diff;
+// Highlights `code` as a whole, so comments and strings spanning lines come out right,
+// and hands the rendered lines to `children`
+const HighlightedLines: React.FC<{
+    code: string;
+    language?: SupportedLanguage;
+    theme: Theme;
+    children: (lines: React.ReactNode[] | null) => React.ReactNode;
+}> = ({ code, language, theme, children }) => {
+    if (!language) return <>{children(null)}</>;
+    return (
+        <SyntaxHighlighter
+            language={language}
+            style={theme === 'dark' ? atomOneDark : atomOneLight}
+            PreTag={Passthrough}
+            CodeTag={Passthrough}
+            wrapLines
+            renderer={({ rows, stylesheet, useInlineStyles }) => children(
+                rows.map((node, i) => createElement({ node, stylesheet, useInlineStyles, key: i }))
+            )}
+        >
+            {code}
+        </SyntaxHighlighter>
+    );
 };
 
-const DiffViewer: React.FC<DiffViewerProps> = ({ oldContent, newContent, fileName, theme }) => {
-    const diffs = React.useMemo(() => generateDiff(oldContent, newContent), [oldContent, newContent]);
-    
+const NO_DIFF: DiffLine[] = [];
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ oldContent, newContent, fileName, theme, language, onChange }) => {
+    const [mode, setMode] = useState<DiffMode>(() => (localStorage.getItem('nexus-code-diff-mode') as DiffMode) || 'split');
+    const [options, setOptions] = useState<DiffOptions>(() => {
+        const saved = localStorage.getItem('nexus-code-diff-options');
+        return saved ? JSON.parse(saved) : {};
+    });
+    // Null while a large diff is computed in the background
+    const computed = useDiff(oldContent, newContent, options);
+    const diffs = computed ?? NO_DIFF;
+    const lines = useMemo(() => numberLines(diffs), [diffs]);
+    // Folds the user opened, by their first line
+    const [expanded, setExpanded] = useState<Set<number>>(new Set());
+    const chunks = useMemo(() => foldUnchanged(diffs, expanded), [diffs, expanded]);
+    const hunks = useMemo(() => getDiffHunks(diffs), [diffs]);
+    // Change number of each change's first line
+    const hunkStarts = useMemo(() => new Map(hunks.map((hunk, n) => [hunk.start, n])), [hunks]);
+    const [currentHunk, setCurrentHunk] = useState(-1);
+    // Bumped to re-render edited lines from the props, dropping what was typed
+    const [editVersion, setEditVersion] = useState(0);
+    const cancelEdit = useRef(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setExpanded(new Set());
+    }, [diffs]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-diff-mode', mode);
+    }, [mode]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-diff-options', JSON.stringify(options));
+    }, [options]);
+
+    const toggleOption = (option: keyof DiffOptions) => setOptions(prev => ({ ...prev, [option]: !prev[option] }));
+
+    // Moves `step` changes forward or back, wrapping around, and scrolls to it
+    const goToHunk = useCallback((step: number) => {
+        if (hunks.length === 0) return;
+        const n = currentHunk === -1
+            ? (step > 0 ? 0 : hunks.length - 1)
+            : (Math.min(currentHunk, hunks.length - 1) + step + hunks.length) % hunks.length;
+        setCurrentHunk(n);
+        containerRef.current?.querySelector(`[data-hunk="${n}"]`)?.scrollIntoView({ block: 'center' });
+    }, [hunks, currentHunk]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'F7') {
+                e.preventDefault();
+                goToHunk(e.shiftKey ? -1 : 1);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [goToHunk]);
+
+    // Puts the old lines of change `n` back, keeping every other change
+    const revertHunk = (n: number) => {
+        const { start, end } = hunks[n];
+        const others = new Set(diffs.map((_, i) => i).filter(i => diffs[i].type !== 'common' && (i < start || i >= end)));
+        onChange?.(applyDiffSelection(diffs, others));
+    };
+
+    // Writes an edited line (which may now hold several) back into the new text
+    const commitLine = (line: NumberedLine, text: string, edited: string) => {
+        if (cancelEdit.current) {
+            cancelEdit.current = false;
+            setEditVersion(v => v + 1);
+            return;
+        }
+        if (edited === text) return;
+        const newLines = newContent.split('\n');
+        newLines[line.newNumber! - 1] = edited;
+        onChange?.(newLines.join('\n'));
+    };
+
     const bgColor = theme === 'dark' ? '#1e1e1e' : '#fafafa';
     const addColor = theme === 'dark' ? 'rgba(22, 74, 45, 0.5)' : '#e6ffed';
     const delColor = theme === 'dark' ? 'rgba(92, 26, 26, 0.5)' : '#ffebe9';
+    const addWordColor = theme === 'dark' ? 'rgba(46, 160, 67, 0.45)' : '#acf2bd';
+    const delWordColor = theme === 'dark' ? 'rgba(248, 81, 73, 0.45)' : '#fdb8c0';
     const addTextColor = theme === 'dark' ? '#57d682' : '#22863a';
     const delTextColor = theme === 'dark' ? '#ff8179' : '#b31d1d';
     const commonTextColor = theme === 'dark' ? '#cccccc' : '#24292e';
     const lineNumColor = theme === 'dark' ? 'rgba(204, 204, 204, 0.5)' : 'rgba(27, 31, 35, 0.3)';
-
-    let oldLineNum = 1;
-    let newLineNum = 1;
+    const numberStyle: React.CSSProperties = { color: lineNumColor, userSelect: 'none', width: '45px', display: 'inline-block', textAlign: 'right', flexShrink: 0, paddingRight: '10px' };
 
     return (
-        <div className="h-full w-full bg-light-bg-alt dark:bg-dark-bg p-4 overflow-auto">
-            <h2 className="text-lg font-bold mb-2">Diff: {fileName}</h2>
-            <div
-                className="font-mono text-sm p-2 rounded whitespace-pre-wrap"
-                style={{ backgroundColor: bgColor }}
-                aria-label={`Diff view for ${fileName}`}
-            >
-                {diffs.map((line, index) => {
-                    let backgroundColor: string | undefined;
-                    let prefix: string;
-                    let currentOldLine: number | null = null;
-                    let currentNewLine: number | null = null;
-                    let textColor = commonTextColor;
-
-                    switch (line.type) {
-                        case 'add':
-                            backgroundColor = addColor;
-                            prefix = '+';
-                            textColor = addTextColor;
-                            currentNewLine = newLineNum++;
-                            break;
-                        case 'del':
-                            backgroundColor = delColor;
-                            prefix = '-';
-                            textColor = delTextColor;
-                            currentOldLine = oldLineNum++;
-                            break;
-                        default:
-                            backgroundColor = undefined;
-                            prefix = ' ';
-                            currentOldLine = oldLineNum++;
-                            currentNewLine = newLineNum++;
-                            break;
-                    }
-                    
-                    return (
-                        <div key={index} style={{ backgroundColor }} className="flex w-full leading-relaxed">
-                           <span style={{ color: lineNumColor, userSelect: 'none', width: '45px', display: 'inline-block', textAlign: 'right', flexShrink: 0, paddingRight: '10px' }}>
-                               {currentOldLine}
-                           </span>
-                           <span style={{ color: lineNumColor, userSelect: 'none', width: '45px', display: 'inline-block', textAlign: 'right', flexShrink: 0, paddingRight: '10px' }}>
-                               {currentNewLine}
-                           </span>
-                           <span className="flex-grow" style={{ color: textColor, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
-                             <span style={{userSelect: 'none', width: '2ch', display: 'inline-block', textAlign: 'center', flexShrink: 0}}>{prefix}</span>
-                             <span style={{ paddingLeft: '5px' }}>{line.content || ' '}</span>
-                           </span>
-                        </div>
-                    );
-                })}
+        <div ref={containerRef} className="h-full w-full bg-light-bg-alt dark:bg-dark-bg p-4 overflow-auto">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-lg font-bold">Diff: {fileName}</h2>
+                <div className="flex items-center space-x-3 text-xs">
+                    <div className="flex items-center space-x-1" role="group" aria-label="Changes">
+                        <button onClick={() => goToHunk(-1)} disabled={hunks.length === 0} title="Previous Change (Shift+F7)" className="px-1.5 py-0.5 rounded hover:bg-dark-accent/20 disabled:opacity-40">↑</button>
+                        <button onClick={() => goToHunk(1)} disabled={hunks.length === 0} title="Next Change (F7)" className="px-1.5 py-0.5 rounded hover:bg-dark-accent/20 disabled:opacity-40">↓</button>
+                        <span className="text-dark-text-alt">
+                            {hunks.length === 0 ? 'No changes' : `${currentHunk === -1 ? '–' : Math.min(currentHunk, hunks.length - 1) + 1} of ${hunks.length}`}
+                        </span>
+                    </div>
+                    <label className="flex items-center space-x-1 cursor-pointer">
+                        <input type="checkbox" checked={!!options.ignoreWhitespace} onChange={() => toggleOption('ignoreWhitespace')} />
+                        <span>Ignore whitespace</span>
+                    </label>
+                    <label className="flex items-center space-x-1 cursor-pointer">
+                        <input type="checkbox" checked={!!options.ignoreLineEndings} onChange={() => toggleOption('ignoreLineEndings')} />
+                        <span>Ignore line endings</span>
+                    </label>
+                    <div className="flex rounded overflow-hidden border border-dark-accent/30" role="group" aria-label="Diff layout">
+                        {(['split', 'inline'] as DiffMode[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(option)}
+                                aria-pressed={mode === option}
+                                className={`px-2 py-0.5 capitalize ${mode === option ? 'bg-dark-accent text-white' : 'hover:bg-dark-accent/20'}`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </div>
+            {!computed ? (
+                <div className="font-mono text-sm p-2 rounded" style={{ backgroundColor: bgColor, color: lineNumColor }}>Computing diff…</div>
+            ) : (
+            <HighlightedLines code={oldContent} language={language} theme={theme}>
+                {oldTokens => (
+                    <HighlightedLines code={newContent} language={language} theme={theme}>
+                        {newTokens => {
+                            // The text of one side of a line: syntax tokens over a layer marking the changed words
+                            const renderText = (line: NumberedLine, side: 'old' | 'new') => {
+                                const number = side === 'old' ? line.oldNumber : line.newNumber;
+                                const tokens = (side === 'old' ? oldTokens : newTokens)?.[number! - 1];
+                                // A common line matched only under the ignore options still shows its own text on each side
+                                const text = side === 'old' ? line.oldContent ?? line.content : line.content;
+                                const wordColor = line.type === 'add' ? addWordColor : delWordColor;
+                                const segments: { text: string; changed: boolean }[] = [];
+                                let offset = 0;
+                                line.changes?.forEach(([start, end]) => {
+                                    if (start > offset) segments.push({ text: line.content.slice(offset, start), changed: false });
+                                    segments.push({ text: line.content.slice(start, end), changed: true });
+                                    offset = end;
+                                });
+                                if (line.changes) segments.push({ text: line.content.slice(offset), changed: false });
+
+                                return (
+                                    <span className="relative block flex-grow min-w-0" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', paddingLeft: '5px' }}>
+                                        {line.changes && (
+                                            <span aria-hidden className="absolute inset-0" style={{ color: 'transparent', paddingLeft: '5px' }}>
+                                                {segments.map((segment, i) => (
+                                                    <span key={i} style={segment.changed ? { backgroundColor: wordColor, borderRadius: '2px' } : undefined}>{segment.text}</span>
+                                                ))}
+                                            </span>
+                                        )}
+                                        {onChange && side === 'new' ? (
+                                            <span
+                                                key={`${editVersion}:${text}`}
+                                                contentEditable="plaintext-only"
+                                                suppressContentEditableWarning
+                                                spellCheck={false}
+                                                onBlur={e => commitLine(line, text, e.currentTarget.innerText)}
+                                                onKeyDown={e => {
+                                                    if (e.key === 'Escape') {
+                                                        cancelEdit.current = true;
+                                                        e.currentTarget.blur();
+                                                    }
+                                                }}
+                                                aria-label={`Line ${number}`}
+                                                className="relative inline-block w-full outline-none focus:bg-dark-accent/10"
+                                            >
+                                                {tokens ?? text}
+                                            </span>
+                                        ) : (
+                                            <span className="relative">{tokens ?? (text || ' ')}</span>
+                                        )}
+                                    </span>
+                                );
+                            };
+
+                            // Highlighted text takes its colours from the tokens; plain text from the change type
+                            const rowStyle = (type: DiffLine['type']) => ({
+                                backgroundColor: type === 'add' ? addColor : type === 'del' ? delColor : undefined,
+                                color: oldTokens || type === 'common' ? commonTextColor : type === 'add' ? addTextColor : delTextColor,
+                            });
+                            const prefix = (type: DiffLine['type']) => (
+                                <span style={{ userSelect: 'none', width: '2ch', display: 'inline-block', textAlign: 'center', flexShrink: 0, color: type === 'add' ? addTextColor : type === 'del' ? delTextColor : commonTextColor }}>
+                                    {type === 'add' ? '+' : type === 'del' ? '-' : ' '}
+                                </span>
+                            );
+
+                            // The first row of change `n` is its scroll target and carries its revert button
+                            const revertButton = (n: number | undefined) => onChange && n !== undefined && (
+                                <button
+                                    onClick={() => revertHunk(n)}
+                                    title="Revert this change"
+                                    className="absolute right-1 top-0.5 z-10 px-1.5 text-xs rounded bg-dark-accent/20 hover:bg-dark-accent/40"
+                                    style={{ color: commonTextColor }}
+                                >
+                                    ↶ Revert
+                                </button>
+                            );
+                            const hunkOutline = (n: number | undefined) => n !== undefined && n === currentHunk ? { boxShadow: 'inset 3px 0 0 #007acc' } : undefined;
+
+                            const renderInline = (start: number, end: number) => lines.slice(start, end).map((line, offset) => {
+                                const hunk = hunkStarts.get(start + offset);
+                                return (
+                                    <div key={start + offset} data-hunk={hunk} style={{ ...rowStyle(line.type), ...hunkOutline(hunk) }} className="relative flex w-full leading-relaxed">
+                                        <span style={numberStyle}>{line.oldNumber}</span>
+                                        <span style={numberStyle}>{line.newNumber}</span>
+                                        {prefix(line.type)}
+                                        {renderText(line, line.type === 'del' ? 'old' : 'new')}
+                                        {revertButton(hunk)}
+                                    </div>
+                                );
+                            });
+
+                            // Deleted and added lines of a block side by side; unchanged lines on both sides
+                            const renderSplit = (start: number, end: number) => {
+                                const rows: [NumberedLine | null, NumberedLine | null, number | undefined][] = [];
+                                let deleted: NumberedLine[] = [], added: NumberedLine[] = [];
+                                let hunk: number | undefined;
+                                const flush = () => {
+                                    for (let k = 0; k < Math.max(deleted.length, added.length); k++) {
+                                        rows.push([deleted[k] ?? null, added[k] ?? null, k === 0 ? hunk : undefined]);
+                                    }
+                                    deleted = [];
+                                    added = [];
+                                };
+                                lines.slice(start, end).forEach((line, offset) => {
+                                    hunk = hunkStarts.get(start + offset) ?? hunk;
+                                    if (line.type === 'del') deleted.push(line);
+                                    else if (line.type === 'add') added.push(line);
+                                    else {
+                                        flush();
+                                        hunk = undefined;
+                                        rows.push([line, line, undefined]);
+                                    }
+                                });
+                                flush();
+
+                                const half = (line: NumberedLine | null, side: 'old' | 'new') => (
+                                    <div
+                                        className="flex w-1/2 min-w-0 leading-relaxed"
+                                        style={line ? rowStyle(line.type) : { backgroundColor: theme === 'dark' ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)' }}
+                                    >
+                                        <span style={numberStyle}>{line && (side === 'old' ? line.oldNumber : line.newNumber)}</span>
+                                        {line && prefix(line.type)}
+                                        {line && renderText(line, side)}
+                                    </div>
+                                );
+                                return rows.map(([left, right, rowHunk], i) => (
+                                    <div key={`${start}-${i}`} data-hunk={rowHunk} style={hunkOutline(rowHunk)} className="relative flex w-full">
+                                        {half(left, 'old')}
+                                        <div className="w-px flex-shrink-0" style={{ backgroundColor: lineNumColor }} />
+                                        {half(right, 'new')}
+                                        {revertButton(rowHunk)}
+                                    </div>
+                                ));
+                            };
+
+                            return (
+                                <div
+                                    className="font-mono text-sm p-2 rounded"
+                                    style={{ backgroundColor: bgColor }}
+                                    aria-label={`Diff view for ${fileName}`}
+                                >
+                                    {chunks.map(chunk => chunk.kind === 'fold' ? (
+                                        <button
+                                            key={`fold-${chunk.start}`}
+                                            onClick={() => setExpanded(prev => new Set(prev).add(chunk.start))}
+                                            className="w-full text-left text-xs py-1 px-2 my-0.5 rounded bg-dark-accent/10 hover:bg-dark-accent/20"
+                                            style={{ color: lineNumColor }}
+                                        >
+                                            ↕ Expand {chunk.end - chunk.start} unchanged lines
+                                        </button>
+                                    ) : (
+                                        <React.Fragment key={chunk.start}>
+                                            {mode === 'split' ? renderSplit(chunk.start, chunk.end) : renderInline(chunk.start, chunk.end)}
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            );
+                        }}
+                    </HighlightedLines>
+                )}
+            </HighlightedLines>
+            )}
         </div>
     );
 };
 
-export default DiffViewer;
\ No newline at end of file
+export default DiffViewer;
@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { FileSystemNode, File, Folder } from '../types';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { FileSystemNode, File, Folder, GitFileChange } from '../types';
 import { 
     FileIcon, FolderIcon, ChevronRightIcon, ChevronDownIcon, 
     TypescriptIcon, JsIcon, CssIcon, HtmlIcon, JsonIcon, ReactIcon
@@ -9,13 +9,23 @@ import { NewItemModal } from './Menus';
 interface FileExplorerProps {
     fileSystem: FileSystemNode[];
     onFileClick: (file: File) => void;
-    onNewItem: (parentId: string | null, type: 'file' | 'folder', name?: string) => FileSystemNode | null;
+    // Creates the item; new files are opened by the caller
+    onNewItem: (parentId: string | null, type: 'file' | 'folder', name?: string) => void;
     onRename: (nodeId: string, newName: string) => boolean;
-    onDelete: (nodeId: string) => boolean;
+    // Ids of the deleted files, or false when nothing was deleted
+    onDelete: (nodeId: string) => string[] | false;
     onDuplicate: (nodeId: string) => void;
     onMove: (nodeId: string, targetParentId: string | null) => boolean;
+    onShowHistory: (file: File) => void;
+    onCompare: (left: File, right: File) => void;
+    onCompareWithClipboard: (file: File) => void;
+    // Working tree against HEAD, shown as badges
+    changes: GitFileChange[];
 }
 
+const STATUS_TITLES: Record<GitFileChange['status'], string> = { A: 'Added', M: 'Modified', D: 'Deleted', R: 'Renamed' };
+const STATUS_COLORS: Record<GitFileChange['status'], string> = { A: '#10b981', M: '#f59e0b', D: '#ef4444', R: '#8b5cf6' };
+
 interface DragState {
     isDragging: boolean;
     draggedNode: FileSystemNode | null;
@@ -29,7 +39,11 @@ export default function FileExplorer({
     onRename, 
     onDelete, 
     onDuplicate, 
-    onMove 
+    onMove,
+    onShowHistory,
+    onCompare,
+    onCompareWithClipboard,
+    changes
 }: FileExplorerProps) {
     const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
     const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null);
@@ -44,6 +58,8 @@ export default function FileExplorer({
         y: number;
         node: FileSystemNode;
     } | null>(null);
+    // Left side of the next "Compare with Selected"
+    const [compareSelection, setCompareSelection] = useState<File | null>(null);
     const [isRenaming, setIsRenaming] = useState<string | null>(null);
     const [renameValue, setRenameValue] = useState('');
     const [newItemModal, setNewItemModal] = useState<{
@@ -55,6 +71,28 @@ export default function FileExplorer({
 
     const renameInputRef = useRef<HTMLInputElement>(null);
 
+    // Badges for changed files, and a dot on every folder holding a change (deletions included)
+    const { changeById, changedFolderIds } = useMemo(() => {
+        const folderIds = new Map<string, string>();
+        const collect = (nodes: FileSystemNode[], prefix: string) => nodes.forEach(node => {
+            if (node.type === 'folder') {
+                folderIds.set(prefix + node.name, node.id);
+                collect(node.children, `${prefix}${node.name}/`);
+            }
+        });
+        collect(fileSystem, '');
+
+        const changedFolderIds = new Set<string>();
+        changes.forEach(change => [change.path, change.oldPath].forEach(path => {
+            const parts = path?.split('/') ?? [];
+            for (let i = 1; i < parts.length; i++) {
+                const id = folderIds.get(parts.slice(0, i).join('/'));
+                if (id) changedFolderIds.add(id);
+            }
+        }));
+        return { changeById: new Map(changes.map(c => [c.file.id, c])), changedFolderIds };
+    }, [fileSystem, changes]);
+
     const toggleFolder = useCallback((folderId: string) => {
         setExpandedFolders(prev => {
             const newSet = new Set(prev);
@@ -241,7 +279,10 @@ export default function FileExplorer({
                     >
                         {isExpanded ? <ChevronDownIcon className="w-4 h-4 mr-1 flex-shrink-0" /> : <ChevronRightIcon className="w-4 h-4 mr-1 flex-shrink-0" />}
                         <FolderIcon className="w-4 h-4 mr-2 flex-shrink-0 text-blue-500" />
-                        <span className="font-bold">{node.name}</span>
+                        <span className="font-bold flex-grow truncate">{node.name}</span>
+                        {changedFolderIds.has(node.id) && (
+                            <div className="w-1.5 h-1.5 rounded-full ml-2 flex-shrink-0" style={{ backgroundColor: STATUS_COLORS.M }} />
+                        )}
                     </button>
                     
                     {isExpanded && (
@@ -253,6 +294,7 @@ export default function FileExplorer({
             );
         }
 
+        const change = changeById.get(node.id);
         return (
             <div
                 draggable
@@ -268,10 +310,19 @@ export default function FileExplorer({
                     onClick={() => onFileClick(node)}
                 >
                     {getFileIcon(node)}
-                    <span className="flex-grow truncate">{node.name}</span>
+                    <span className="flex-grow truncate" style={change ? { color: STATUS_COLORS[change.status] } : undefined}>{node.name}</span>
                     {node.isDirty && (
                         <div className="w-2 h-2 rounded-full bg-dark-text-alt dark:bg-gray-400 ml-2" />
                     )}
+                    {change && (
+                        <span
+                            className="ml-2 text-xs font-mono flex-shrink-0"
+                            style={{ color: STATUS_COLORS[change.status] }}
+                            title={change.status === 'R' ? `${STATUS_TITLES.R} from ${change.oldPath}` : STATUS_TITLES[change.status]}
+                        >
+                            {change.status}
+                        </span>
+                    )}
                 </button>
             </div>
         );
@@ -288,14 +339,10 @@ export default function FileExplorer({
 
     const handleNewItemConfirm = useCallback((name: string, type: 'file' | 'folder') => {
         if (newItemModal) {
-            const result = onNewItem(newItemModal.parentId, type, name);
-            if (result && result.type === 'file') {
-                // Si es un archivo, abrirlo automáticamente
-                onFileClick(result);
-            }
+            onNewItem(newItemModal.parentId, type, name);
         }
         setNewItemModal(null);
-    }, [newItemModal, onNewItem, onFileClick]);
+    }, [newItemModal, onNewItem]);
 
     return (
         <div className="h-full flex flex-col">
@@ -372,6 +419,52 @@ export default function FileExplorer({
                     >
                         Duplicate
                     </button>
+                    {contextMenu.node.type === 'file' && (
+                        <button
+                            onClick={() => {
+                                onShowHistory(contextMenu.node as File);
+                                closeContextMenu();
+                            }}
+                            className="w-full px-4 py-2 text-left text-dark-text dark:text-dark-text hover:bg-dark-accent/20 text-sm"
+                        >
+                            Show File History
+                        </button>
+                    )}
+                    {contextMenu.node.type === 'file' && (
+                        <>
+                            <div className="border-t border-dark-accent/20 my-1" />
+                            <button
+                                onClick={() => {
+                                    setCompareSelection(contextMenu.node as File);
+                                    closeContextMenu();
+                                }}
+                                className="w-full px-4 py-2 text-left text-dark-text dark:text-dark-text hover:bg-dark-accent/20 text-sm"
+                            >
+                                Select for Compare
+                            </button>
+                            {compareSelection && compareSelection.id !== contextMenu.node.id && (
+                                <button
+                                    onClick={() => {
+                                        onCompare(compareSelection, contextMenu.node as File);
+                                        closeContextMenu();
+                                    }}
+                                    title={`Compare ${compareSelection.name} with this file`}
+                                    className="w-full px-4 py-2 text-left text-dark-text dark:text-dark-text hover:bg-dark-accent/20 text-sm"
+                                >
+                                    Compare with Selected
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    onCompareWithClipboard(contextMenu.node as File);
+                                    closeContextMenu();
+                                }}
+                                className="w-full px-4 py-2 text-left text-dark-text dark:text-dark-text hover:bg-dark-accent/20 text-sm"
+                            >
+                                Compare with Clipboard
+                            </button>
+                        </>
+                    )}
                     <div className="border-t border-dark-accent/20 my-1" />
                     <button
                         onClick={() => {
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { GitFileRevision, Theme } from '../types';
+import DiffViewer from './DiffViewer';
+import { CloseIcon } from './icons';
+
+interface FileHistoryProps {
+    fileName: string;
+    revisions: GitFileRevision[];
+    theme: Theme;
+    onOpenRevision: (commitId: string) => void;
+    // Opens the file at two commits side by side, older first
+    onCompareRevisions: (oldCommitId: string, newCommitId: string) => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<GitFileRevision['status'], string> = { A: 'Added', M: 'Modified', D: 'Deleted' };
+const STATUS_COLORS: Record<GitFileRevision['status'], string> = { A: '#10b981', M: '#f59e0b', D: '#ef4444' };
+
+// Timeline of the commits that touched a file; the selected one shows its diff
+const FileHistory: React.FC<FileHistoryProps> = ({ fileName, revisions, theme, onOpenRevision, onCompareRevisions, onClose }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const selected = revisions.find(r => r.commit.id === selectedId) ?? revisions[0];
+    // Revisions ticked for comparison; ticking a third drops the first
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    const toggleCompare = (commitId: string) => setCompareIds(prev =>
+        prev.includes(commitId) ? prev.filter(id => id !== commitId) : [...prev, commitId].slice(-2)
+    );
+
+    // The timeline is newest first, so the later entry is the older revision
+    const compareSelected = () => {
+        const [a, b] = compareIds.map(id => revisions.findIndex(r => r.commit.id === id));
+        onCompareRevisions(revisions[Math.max(a, b)].commit.id, revisions[Math.min(a, b)].commit.id);
+    };
+
+    return (
+        <div className="h-full w-full flex bg-light-bg-alt dark:bg-dark-bg">
+            <div className="w-72 flex-shrink-0 flex flex-col border-r border-dark-accent/20">
+                <div className="flex items-center justify-between p-3 border-b border-dark-accent/20">
+                    <h2 className="font-semibold truncate" title={fileName}>History: {fileName}</h2>
+                    <button onClick={onClose} aria-label="Close file history" className="p-0.5 rounded-full hover:bg-dark-accent/20">
+                        <CloseIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                {revisions.length > 1 && (
+                    <div className="flex items-center justify-between px-3 py-1.5 text-xs text-dark-text-alt border-b border-dark-accent/20">
+                        <span>{compareIds.length < 2 ? 'Tick two revisions to compare' : '2 revisions selected'}</span>
+                        <button
+                            onClick={compareSelected}
+                            disabled={compareIds.length < 2}
+                            className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 rounded transition-colors disabled:opacity-40"
+                        >
+                            Compare
+                        </button>
+                    </div>
+                )}
+                {revisions.length === 0 ? (
+                    <p className="p-3 text-sm text-dark-text-alt">This file has not been committed yet.</p>
+                ) : (
+                    <ol className="flex-1 overflow-y-auto" aria-label={`Revisions of ${fileName}`}>
+                        {revisions.map(revision => (
+                            <li key={revision.commit.id} className="relative pl-6">
+                                {/* Timeline rail and dot */}
+                                <span className="absolute left-2.5 top-0 bottom-0 w-px bg-dark-accent/30" />
+                                <span
+                                    className="absolute left-1.5 top-3.5 w-2.5 h-2.5 rounded-full"
+                                    style={{ backgroundColor: STATUS_COLORS[revision.status] }}
+                                />
+                                {revisions.length > 1 && (
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(revision.commit.id)}
+                                        onChange={() => toggleCompare(revision.commit.id)}
+                                        aria-label={`Select ${revision.commit.id.slice(0, 7)} for comparison`}
+                                        className="absolute right-2 top-2.5 z-10"
+                                    />
+                                )}
+                                <button
+                                    onClick={() => setSelectedId(revision.commit.id)}
+                                    aria-current={revision === selected}
+                                    className={`w-full text-left p-2 pr-7 hover:bg-dark-accent/10 ${revision === selected ? 'bg-dark-accent/20' : ''}`}
+                                >
+                                    <div className="text-sm truncate">{revision.commit.message.split('\n')[0]}</div>
+                                    <div className="text-xs text-dark-text-alt">
+                                        <span className="font-mono">{revision.commit.id.slice(0, 7)}</span> · {STATUS_LABELS[revision.status]}
+                                        {revision.previous && revision.previous.name !== revision.file.name && ` from ${revision.previous.name}`}
+                                    </div>
+                                    <div className="text-xs text-dark-text-alt truncate">
+                                        {revision.commit.author} · {new Date(revision.commit.timestamp).toLocaleString()}
+                                    </div>
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+
+            {selected && (
+                <div className="flex-1 flex flex-col overflow-hidden">
+                    <div className="flex items-center justify-end p-2 border-b border-dark-accent/20">
+                        <button
+                            onClick={() => onOpenRevision(selected.status === 'D' ? selected.commit.parentId! : selected.commit.id)}
+                            className="px-2 py-0.5 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded transition-colors"
+                        >
+                            {selected.status === 'D' ? 'Open Last Version' : 'Open This Revision'}
+                        </button>
+                    </div>
+                    <div className="flex-1 overflow-hidden">
+                        <DiffViewer
+                            key={selected.commit.id}
+                            oldContent={selected.previous?.content ?? ''}
+                            newContent={selected.status === 'D' ? '' : selected.file.content}
+                            fileName={`${selected.file.name} @ ${selected.commit.id.slice(0, 7)}`}
+                            language={selected.file.language}
+                            theme={theme}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FileHistory;
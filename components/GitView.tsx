@@ -1,61 +1,213 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { File, Theme, GitStatus } from '../types';
+import { File, FileSystemNode, Theme, GitStatus, GitCommit, GitFileChange, GitMergeState, GitStash, GitStashApplyResult } from '../types';
+import { getDiffHunks, applyDiffSelection } from './DiffViewer';
+import { DiffLine } from '../diff';
+import { useDiffs, DiffPair } from '../hooks/useDiff';
 import { GitIcon, FileIcon, JsIcon, CssIcon, HtmlIcon, TypescriptIcon, JsonIcon, ReactIcon, PlusIcon, MinusIcon, CheckIcon } from './icons';
 
 interface GitViewProps {
     fileSystem: any[];
     savedFileSystem: any[];
+    // Working tree against HEAD
+    changes: GitFileChange[];
     theme: Theme;
     onFileOpen: (file: File) => void;
+    // Opens the editable diff of a file against HEAD
+    onShowDiff: (file: File) => void;
     onResetToSaved: () => void;
+    log: GitCommit[];
+    author: string;
+    onAuthorChange: (author: string) => void;
+    onCommit: (fileIds: string[], message: string) => void;
+    index: Record<string, string | null>;
+    onStage: (fileId: string, content: string | null, keep?: boolean) => void;
+    onUnstage: (fileId: string) => void;
+    onDiscard: (fileId: string, content: string) => void;
+    onRestore: (fileId: string) => void;
+    stashes: GitStash[];
+    onStashPush: (message?: string) => GitStash | null;
+    onStashApply: (n: number, drop: boolean) => GitStashApplyResult | null;
+    onStashDrop: (n: number) => void;
+    onImportRepository: (source: 'folder' | 'bundle') => void;
+    onExportBundle: () => void;
+    onExportPatches: () => void;
+    // Without a commit id, exports the working tree's changes
+    onExportDiff: (commitId?: string) => void;
+    onApplyPatch: () => void;
+    getCommitChanges: (commitId: string) => GitFileChange[];
+    getFileAtRevision: (commitId: string, fileId: string) => File | null;
+    branches: Record<string, string>;
+    currentBranch: string;
+    mergeState: GitMergeState | null;
+    onCreateBranch: (name: string) => boolean;
+    onRenameBranch: (oldName: string, newName: string) => boolean;
+    onDeleteBranch: (name: string) => boolean;
+    onCheckoutBranch: (name: string) => void;
+    onMergeBranch: (name: string) => void;
+    onAbortMerge: () => void;
 }
 
-const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, onFileOpen, onResetToSaved }) => {
+const INVALID_BRANCH_MESSAGE = 'Invalid or existing branch name. Branch names cannot contain spaces, "..", or ~^:?*[\\, and cannot start with "-".';
+
+const formatCommitDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+// 'R' reads as a rename within a folder and a move across folders
+const describeChange = (change: GitFileChange) => {
+    if (change.status !== 'R') return change.status === 'A' ? 'Added' : change.status === 'M' ? 'Modified' : 'Deleted';
+    const label = folderOf(change.oldPath!) === folderOf(change.path!) ? 'Renamed' : 'Moved';
+    return change.modified ? `${label} and modified` : label;
+};
+
+// Unchanged lines shown around each hunk
+const HUNK_CONTEXT = 2;
+
+interface HunkAction {
+    label: string;
+    onApply: (indices: Set<number>) => void;
+    danger?: boolean;
+}
+
+interface DiffHunksProps {
+    title: string;
+    diff: DiffLine[];
+    selected: Set<number>;
+    onToggleLine: (index: number) => void;
+    actions: HunkAction[];
+}
+
+// A diff split into hunks, each with its own actions. Clicking changed lines selects
+// them so the same actions can be applied to single lines.
+const DiffHunks: React.FC<DiffHunksProps> = ({ title, diff, selected, onToggleLine, actions }) => {
+    const hunks = getDiffHunks(diff);
+    if (hunks.length === 0) return null;
+
+    // Line numbers before each diff entry, for the hunk headers and the gutter
+    const numbers: { old: number; new: number }[] = [];
+    let oldLine = 1, newLine = 1;
+    diff.forEach(line => {
+        numbers.push({ old: oldLine, new: newLine });
+        if (line.type !== 'add') oldLine++;
+        if (line.type !== 'del') newLine++;
+    });
+
+    const actionButton = (action: HunkAction, indices: Set<number>, key: string) => (
+        <button
+            key={key}
+            onClick={() => action.onApply(indices)}
+            className={`px-2 py-0.5 rounded transition-colors ${action.danger
+                ? 'bg-red-500/20 hover:bg-red-500/30 text-red-500'
+                : 'bg-dark-accent/20 hover:bg-dark-accent/30 text-dark-text dark:text-dark-text'}`}
+        >
+            {action.label}
+        </button>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-dark-text-alt">
+                <span>{title}</span>
+                {selected.size > 0 && (
+                    <span className="flex items-center space-x-1">
+                        <span className="mr-1">{selected.size} line{selected.size !== 1 ? 's' : ''} selected</span>
+                        {actions.map(action => actionButton({ ...action, label: `${action.label} Lines` }, selected, action.label))}
+                    </span>
+                )}
+            </div>
+            {hunks.map(hunk => {
+                const indices = new Set(Array.from({ length: hunk.end - hunk.start }, (_, i) => hunk.start + i));
+                const from = Math.max(0, hunk.start - HUNK_CONTEXT);
+                const to = Math.min(diff.length, hunk.end + HUNK_CONTEXT);
+                const oldCount = diff.slice(from, to).filter(l => l.type !== 'add').length;
+                const newCount = diff.slice(from, to).filter(l => l.type !== 'del').length;
+
+                return (
+                    <div key={hunk.start} className="border border-dark-accent/10 rounded">
+                        <div className="flex items-center justify-between px-2 py-1 bg-dark-accent/10 text-dark-text-alt">
+                            <span>@@ -{numbers[from].old},{oldCount} +{numbers[from].new},{newCount} @@</span>
+                            <span className="flex space-x-1">
+                                {actions.map(action => actionButton({ ...action, label: `${action.label} Hunk` }, indices, action.label))}
+                            </span>
+                        </div>
+                        {diff.slice(from, to).map((line, offset) => {
+                            const index = from + offset;
+                            const isChange = line.type !== 'common';
+                            return (
+                                <div
+                                    key={index}
+                                    onClick={isChange ? () => onToggleLine(index) : undefined}
+                                    className={`py-0.5 ${isChange ? 'cursor-pointer' : ''} ${
+                                        line.type === 'add' ? 'bg-green-500/20 text-green-700 dark:text-green-400' :
+                                        line.type === 'del' ? 'bg-red-500/20 text-red-700 dark:text-red-400' :
+                                        'text-dark-text-alt'
+                                    } ${selected.has(index) ? 'ring-1 ring-inset ring-dark-accent' : ''}`}
+                                >
+                                    <span className="inline-block w-8 text-right mr-2 opacity-50">
+                                        {line.type === 'add' ? numbers[index].new : numbers[index].old}
+                                    </span>
+                                    <span>{line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' '}</span>
+                                    {line.content}
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const GitView: React.FC<GitViewProps> = ({
+    fileSystem, savedFileSystem, changes, theme, onFileOpen, onShowDiff, onResetToSaved,
+    log, author, onAuthorChange, onCommit, getCommitChanges, getFileAtRevision,
+    branches, currentBranch, mergeState, onCreateBranch, onRenameBranch, onDeleteBranch,
+    onCheckoutBranch, onMergeBranch, onAbortMerge, index, onStage, onUnstage, onDiscard, onRestore,
+    stashes, onStashPush, onStashApply, onStashDrop, onImportRepository, onExportBundle, onExportPatches,
+    onExportDiff, onApplyPatch
+}) => {
     const [commitMessage, setCommitMessage] = useState('');
-    const [stagedFiles, setStagedFiles] = useState<Set<string>>(new Set());
+    const [lineSelection, setLineSelection] = useState<{ fileId: string; section: 'staged' | 'unstaged'; indices: Set<number> } | null>(null);
     const [showCommitForm, setShowCommitForm] = useState(false);
+    const [expandedCommitId, setExpandedCommitId] = useState<string | null>(null);
 
-    const getChangedFiles = useMemo((): File[] => {
-        let results: File[] = [];
-        
-        const traverse = (workingNodes: any[], savedNodes: any[], path: string = '') => {
-            for (const workingNode of workingNodes) {
-                const savedNode = savedNodes.find((n: any) => n.id === workingNode.id);
-                const currentPath = path ? `${path}/${workingNode.name}` : workingNode.name;
-                
-                if (workingNode.type === 'file') {
-                    if (!savedNode) {
-                        // New file
-                        results.push({ ...workingNode, gitStatus: 'A' as GitStatus });
-                    } else if (workingNode.content !== savedNode.content || workingNode.isDirty) {
-                        // Modified file
-                        results.push({ ...workingNode, gitStatus: 'M' as GitStatus });
-                    }
-                } else if (workingNode.type === 'folder') {
-                    if (savedNode) {
-                        traverse(workingNode.children, savedNode.children, currentPath);
-                    } else {
-                        // New folder - check for files inside
-                        const collectFiles = (nodes: any[]): File[] => {
-                            let files: File[] = [];
-                            for (const node of nodes) {
-                                if (node.type === 'file') {
-                                    files.push({ ...node, gitStatus: 'A' as GitStatus });
-                                } else if (node.type === 'folder') {
-                                    files.push(...collectFiles(node.children));
-                                }
-                            }
-                            return files;
-                        };
-                        results.push(...collectFiles(workingNode.children));
-                    }
-                }
+    // Working tree changes, plus files staged and then edited back to their HEAD content
+    const changedFiles = useMemo((): GitFileChange[] => {
+        const listed = new Set(changes.map(c => c.file.id));
+        const stagedOnly: GitFileChange[] = [];
+        const collect = (nodes: FileSystemNode[], prefix: string) => nodes.forEach(node => {
+            const path = prefix + node.name;
+            if (node.type === 'folder') collect(node.children, `${path}/`);
+            else if (index[node.id] !== undefined && !listed.has(node.id)) {
+                stagedOnly.push({ file: node, status: 'M', oldPath: path, path, modified: false });
             }
-        };
-        
-        traverse(fileSystem, savedFileSystem);
-        return results;
-    }, [fileSystem, savedFileSystem]);
+        });
+        collect(fileSystem, '');
+        return [...changes, ...stagedOnly];
+    }, [changes, fileSystem, index]);
+
+    const savedContents = useMemo(() => {
+        const contents = new Map<string, string>();
+        const collect = (nodes: any[]) => nodes.forEach(node => {
+            if (node.type === 'file') contents.set(node.id, node.content);
+            else collect(node.children);
+        });
+        collect(savedFileSystem);
+        return contents;
+    }, [savedFileSystem]);
+
+    // HEAD -> index and index -> working tree for every changed file, in that order. Exact
+    // diffs, no ignore options: staging rebuilds file contents from these lines.
+    const diffPairs = useMemo(() => changedFiles.flatMap((change): DiffPair[] => {
+        const headContent = savedContents.get(change.file.id) ?? '';
+        const staged = index[change.file.id];
+        const stagedContent = staged === undefined ? headContent : staged ?? '';
+        return [
+            { oldStr: headContent, newStr: stagedContent },
+            { oldStr: stagedContent, newStr: change.status === 'D' ? '' : change.file.content },
+        ];
+    }), [changedFiles, savedContents, index]);
+    const fileDiffs = useDiffs(diffPairs);
 
     const getFileIcon = (file: File) => {
         const commonProps = { className: "w-4 h-4" };
@@ -78,7 +230,7 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
         }
     };
 
-    const getStatusIcon = (status: GitStatus) => {
+    const getStatusIcon = (status: GitStatus | GitFileChange['status']) => {
         switch (status) {
             case 'A':
                 return <PlusIcon className="w-4 h-4" style={{color: '#10b981'}} />;
@@ -86,29 +238,51 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                 return <MinusIcon className="w-4 h-4" style={{color: '#f59e0b'}} />;
             case 'U':
                 return <MinusIcon className="w-4 h-4" style={{color: '#3b82f6'}} />;
+            case 'D':
+                return <MinusIcon className="w-4 h-4" style={{color: '#ef4444'}} />;
+            case 'R':
+                return <MinusIcon className="w-4 h-4" style={{color: '#8b5cf6'}} />;
             default:
                 return null;
         }
     };
 
-    const toggleStaged = useCallback((fileId: string) => {
-        setStagedFiles(prev => {
-            const newSet = new Set(prev);
-            if (newSet.has(fileId)) {
-                newSet.delete(fileId);
-            } else {
-                newSet.add(fileId);
-            }
-            return newSet;
-        });
-    }, []);
+    // What committing the whole change would record: null for a deletion
+    const targetContent = (change: GitFileChange) => change.status === 'D' ? null : change.file.content;
+
+    const isFullyStaged = (change: GitFileChange) => index[change.file.id] === targetContent(change);
+
+    // Renames and moves stay staged even when their content matches HEAD
+    const stage = useCallback((change: GitFileChange, content: string | null) => {
+        onStage(change.file.id, content, change.status === 'R');
+    }, [onStage]);
+
+    const toggleStaged = useCallback((change: GitFileChange) => {
+        if (isFullyStaged(change)) {
+            onUnstage(change.file.id);
+        } else {
+            stage(change, targetContent(change));
+        }
+        setLineSelection(null);
+    }, [index, stage, onUnstage]);
 
     const stageAll = useCallback(() => {
-        setStagedFiles(new Set(changedFiles.map(f => f.id)));
-    }, [changedFiles]);
+        changedFiles.forEach(c => stage(c, targetContent(c)));
+        setLineSelection(null);
+    }, [changedFiles, stage]);
 
     const unstageAll = useCallback(() => {
-        setStagedFiles(new Set());
+        Object.keys(index).forEach(onUnstage);
+        setLineSelection(null);
+    }, [index, onUnstage]);
+
+    const toggleLine = useCallback((fileId: string, section: 'staged' | 'unstaged', lineIndex: number) => {
+        setLineSelection(prev => {
+            const indices = new Set(prev?.fileId === fileId && prev.section === section ? prev.indices : []);
+            if (indices.has(lineIndex)) indices.delete(lineIndex);
+            else indices.add(lineIndex);
+            return indices.size > 0 ? { fileId, section, indices } : null;
+        });
     }, []);
 
     const handleCommit = useCallback(() => {
@@ -117,57 +291,127 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
             return;
         }
         
-        if (stagedFiles.size === 0) {
+        // A merge commit takes the whole merged tree, whatever is staged
+        if (mergeState) {
+            onCommit([], commitMessage.trim());
+            setCommitMessage('');
+            setShowCommitForm(false);
+            return;
+        }
+
+        // Content staged before a file was deleted has nothing left to commit to
+        const fileIds = changedFiles
+            .filter(c => index[c.file.id] !== undefined && (c.status !== 'D' || index[c.file.id] === null))
+            .map(c => c.file.id);
+        if (fileIds.length === 0) {
             alert('Please stage some files before committing');
             return;
         }
-        
-        // This would need to be integrated with the file system hook
-        alert(`Commit "${commitMessage}" would be created with ${stagedFiles.size} staged files`);
+
+        onCommit(fileIds, commitMessage.trim());
         setCommitMessage('');
-        setStagedFiles(new Set());
+        setLineSelection(null);
         setShowCommitForm(false);
-    }, [commitMessage, stagedFiles]);
+    }, [commitMessage, index, changedFiles, onCommit, mergeState]);
+
+    const handleNewBranch = useCallback(() => {
+        const name = window.prompt('New branch name (created from the current commit):');
+        if (name === null) return;
+        if (!onCreateBranch(name.trim())) alert(INVALID_BRANCH_MESSAGE);
+    }, [onCreateBranch]);
+
+    const handleRenameBranch = useCallback((name: string) => {
+        const newName = window.prompt(`Rename branch '${name}' to:`, name);
+        if (newName === null || newName.trim() === name) return;
+        if (!onRenameBranch(name, newName.trim())) alert(INVALID_BRANCH_MESSAGE);
+    }, [onRenameBranch]);
+
+    const handleDeleteBranch = useCallback((name: string) => {
+        if (window.confirm(`Delete branch '${name}'? Commits only reachable from it will no longer be listed.`)) {
+            onDeleteBranch(name);
+        }
+    }, [onDeleteBranch]);
+
+    const toggleCommitForm = useCallback(() => {
+        if (!showCommitForm && mergeState && !commitMessage) {
+            setCommitMessage(`Merge branch '${mergeState.branch}' into ${currentBranch}`);
+        }
+        setShowCommitForm(!showCommitForm);
+    }, [showCommitForm, mergeState, commitMessage, currentBranch]);
+
+    const conflictedFiles = useMemo(() => {
+        if (!mergeState) return [];
+        const byId = new Map(changedFiles.filter(c => c.status !== 'D').map(c => [c.file.id, c.file]));
+        return mergeState.conflicts.map(id => byId.get(id)).filter((f): f is File => !!f);
+    }, [mergeState, changedFiles]);
+
+    const openRevision = useCallback((commitId: string, fileId: string) => {
+        const file = getFileAtRevision(commitId, fileId);
+        if (file) onFileOpen(file);
+    }, [getFileAtRevision, onFileOpen]);
+
+    const handleStash = useCallback(() => {
+        const message = window.prompt('Stash message (optional):');
+        if (message === null) return;
+        if (!onStashPush(message.trim() || undefined)) alert('No local changes to save');
+        setLineSelection(null);
+    }, [onStashPush]);
+
+    const handleStashApply = useCallback((n: number, drop: boolean) => {
+        const result = onStashApply(n, drop);
+        if (result && result.conflicts.length > 0) {
+            alert(`Conflicts in ${result.conflicts.join(', ')}. Resolve the conflict markers; the stash entry was kept.`);
+        }
+    }, [onStashApply]);
+
+    const handleStashDrop = useCallback((n: number) => {
+        if (window.confirm(`Drop stash@{${n}}? Its changes will be lost.`)) {
+            onStashDrop(n);
+        }
+    }, [onStashDrop]);
 
     const handleDiscardChanges = useCallback(() => {
         if (window.confirm('Are you sure you want to discard all changes? This action cannot be undone.')) {
             onResetToSaved();
-            setStagedFiles(new Set());
+            setLineSelection(null);
         }
     }, [onResetToSaved]);
 
-    const getFileDiff = (file: File) => {
-        const savedFile = savedFileSystem.find((f: any) => f.id === file.id);
-        if (!savedFile) return null;
-        
-        const workingLines = file.content.split('\n');
-        const savedLines = savedFile.content.split('\n');
-        
-        const diff: { type: 'added' | 'removed' | 'unchanged', line: string, lineNumber: number }[] = [];
-        
-        const maxLines = Math.max(workingLines.length, savedLines.length);
-        for (let i = 0; i < maxLines; i++) {
-            const workingLine = workingLines[i] || '';
-            const savedLine = savedLines[i] || '';
-            
-            if (workingLine === savedLine) {
-                diff.push({ type: 'unchanged', line: workingLine, lineNumber: i + 1 });
-            } else {
-                if (savedLine) {
-                    diff.push({ type: 'removed', line: savedLine, lineNumber: i + 1 });
-                }
-                if (workingLine) {
-                    diff.push({ type: 'added', line: workingLine, lineNumber: i + 1 });
-                }
-            }
-        }
-        
-        return diff;
+    // Staged changes are HEAD -> index, unstaged ones index -> working tree; null while computing
+    const getFileDiff = (change: GitFileChange, position: number) => ({
+        staged: index[change.file.id] !== undefined ? fileDiffs[2 * position] : [],
+        unstaged: fileDiffs[2 * position + 1],
+    });
+
+    // Every change in `diff` except `indices`
+    const allChangesExcept = (diff: DiffLine[], indices: Set<number>) => new Set(
+        diff.map((line, i) => i).filter(i => diff[i].type !== 'common' && !indices.has(i))
+    );
+
+    const stageLines = (change: GitFileChange, diff: DiffLine[], indices: Set<number>) => {
+        stage(change, applyDiffSelection(diff, indices));
+        setLineSelection(null);
+    };
+
+    const unstageLines = (change: GitFileChange, diff: DiffLine[], indices: Set<number>) => {
+        stage(change, applyDiffSelection(diff, allChangesExcept(diff, indices)));
+        setLineSelection(null);
+    };
+
+    const discardLines = (change: GitFileChange, diff: DiffLine[], indices: Set<number>) => {
+        onDiscard(change.file.id, applyDiffSelection(diff, allChangesExcept(diff, indices)));
+        setLineSelection(null);
+    };
+
+    const restoreFile = (change: GitFileChange) => {
+        onUnstage(change.file.id);
+        onRestore(change.file.id);
+        setLineSelection(null);
     };
 
-    const changedFiles = getChangedFiles;
     const hasChanges = changedFiles.length > 0;
-    const hasStagedFiles = stagedFiles.size > 0;
+    const stagedCount = changedFiles.filter(c => index[c.file.id] !== undefined).length;
+    const hasStagedFiles = stagedCount > 0;
 
     return (
         <div className="h-full flex flex-col p-4 space-y-4">
@@ -182,8 +426,8 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                         {changedFiles.length} change{changedFiles.length !== 1 ? 's' : ''}
                     </span>
                     <button
-                        onClick={() => setShowCommitForm(!showCommitForm)}
-                        disabled={!hasStagedFiles}
+                        onClick={toggleCommitForm}
+                        disabled={!hasStagedFiles && !mergeState}
                         className="px-3 py-1 bg-dark-accent hover:bg-dark-accent/80 disabled:bg-dark-accent/30 disabled:cursor-not-allowed rounded text-white text-sm transition-colors"
                     >
                         Commit
@@ -191,6 +435,82 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                 </div>
             </div>
 
+            {/* Repository */}
+            <div className="flex flex-wrap gap-1 text-xs" aria-label="Repository">
+                <button onClick={() => onImportRepository('folder')} disabled={!!mergeState} title="Load a folder containing a .git directory" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 disabled:opacity-40 rounded text-dark-text dark:text-dark-text transition-colors">Import Folder</button>
+                <button onClick={() => onImportRepository('bundle')} disabled={!!mergeState} title="Load a file made with git bundle create" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 disabled:opacity-40 rounded text-dark-text dark:text-dark-text transition-colors">Import Bundle</button>
+                <button onClick={onExportBundle} title="Download all branches as a git bundle" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors">Export Bundle</button>
+                <button onClick={onExportPatches} title="Download commits as a patch series for git am" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors">Export Patches</button>
+                <button onClick={() => onExportDiff()} disabled={!hasChanges} title="Download the uncommitted changes as a unified diff" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 disabled:opacity-40 rounded text-dark-text dark:text-dark-text transition-colors">Export Diff</button>
+                <button onClick={onApplyPatch} title="Apply a pasted or uploaded .patch file to the working tree" className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors">Apply Patch</button>
+            </div>
+
+            {/* Branches */}
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-xs font-semibold uppercase tracking-wide text-dark-text-alt">Branches</h3>
+                    <button
+                        onClick={handleNewBranch}
+                        className="px-2 py-0.5 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                    >
+                        New Branch
+                    </button>
+                </div>
+                <ul className="space-y-1 max-h-32 overflow-y-auto" aria-label="Branches">
+                    {Object.keys(branches).sort().map(name => (
+                        <li key={name} className="flex items-center justify-between text-sm">
+                            <span className={`truncate ${name === currentBranch ? 'font-semibold text-dark-text dark:text-dark-text' : 'text-dark-text-alt'}`}>
+                                {name === currentBranch ? '● ' : ''}{name}
+                                <span className="ml-2 font-mono text-xs opacity-60">{branches[name].slice(0, 7)}</span>
+                            </span>
+                            <span className="flex-shrink-0 flex space-x-1 text-xs">
+                                {name !== currentBranch && (
+                                    <>
+                                        <button onClick={() => onCheckoutBranch(name)} disabled={!!mergeState} className="px-1 rounded hover:bg-dark-accent/20 disabled:opacity-40">Checkout</button>
+                                        <button onClick={() => onMergeBranch(name)} disabled={!!mergeState} className="px-1 rounded hover:bg-dark-accent/20 disabled:opacity-40">Merge</button>
+                                    </>
+                                )}
+                                <button onClick={() => handleRenameBranch(name)} className="px-1 rounded hover:bg-dark-accent/20">Rename</button>
+                                {name !== currentBranch && (
+                                    <button onClick={() => handleDeleteBranch(name)} className="px-1 rounded hover:bg-red-500/20 text-red-500">Delete</button>
+                                )}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            {/* Merge in progress */}
+            {mergeState && (
+                <div className="p-3 rounded-md border border-yellow-500/40 bg-yellow-500/10 text-sm text-dark-text dark:text-dark-text" role="status">
+                    <div className="flex items-center justify-between">
+                        <span>Merging <strong>{mergeState.branch}</strong> into <strong>{currentBranch}</strong></span>
+                        <button
+                            onClick={onAbortMerge}
+                            className="px-2 py-0.5 text-xs bg-red-500/20 hover:bg-red-500/30 rounded text-red-500 transition-colors"
+                        >
+                            Abort Merge
+                        </button>
+                    </div>
+                    {conflictedFiles.length > 0 && (
+                        <div className="mt-2">
+                            <p className="text-xs text-dark-text-alt mb-1">
+                                Resolve the conflict markers in these files, then commit:
+                            </p>
+                            <ul className="space-y-1">
+                                {conflictedFiles.map(file => (
+                                    <li key={file.id}>
+                                        <button onClick={() => onFileOpen(file)} className="text-xs underline hover:text-dark-accent">
+                                            {file.name}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Commit Form */}
             {showCommitForm && (
                 <div className="p-4 bg-light-bg-alt dark:bg-dark-bg-alt rounded-md border border-dark-accent/20">
@@ -207,9 +527,21 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                                 rows={3}
                             />
                         </div>
+                        <div>
+                            <label className="block text-sm font-medium text-dark-text dark:text-dark-text mb-2">
+                                Author
+                            </label>
+                            <input
+                                value={author}
+                                onChange={(e) => onAuthorChange(e.target.value)}
+                                className="w-full p-2 bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md text-dark-text dark:text-dark-text focus:outline-none"
+                            />
+                        </div>
                         <div className="flex items-center justify-between">
                             <span className="text-sm text-dark-text-alt">
-                                {stagedFiles.size} file{stagedFiles.size !== 1 ? 's' : ''} staged
+                                {mergeState
+                                    ? 'Commits the merge result'
+                                    : `${stagedCount} file${stagedCount !== 1 ? 's' : ''} staged`}
                             </span>
                             <div className="flex space-x-2">
                                 <button
@@ -220,7 +552,7 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                                 </button>
                                 <button
                                     onClick={handleCommit}
-                                    disabled={!commitMessage.trim()}
+                                    disabled={!commitMessage.trim() || !author.trim()}
                                     className="px-3 py-1 bg-dark-accent hover:bg-dark-accent/80 disabled:bg-dark-accent/30 disabled:cursor-not-allowed rounded text-white text-sm transition-colors"
                                 >
                                     Commit
@@ -247,6 +579,13 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                     >
                         Unstage All
                     </button>
+                    <button
+                        onClick={handleStash}
+                        disabled={!!mergeState}
+                        className="px-3 py-1 bg-dark-accent/20 hover:bg-dark-accent/30 disabled:bg-dark-accent/10 disabled:cursor-not-allowed rounded text-dark-text dark:text-dark-text text-sm transition-colors"
+                    >
+                        Stash
+                    </button>
                     <button
                         onClick={handleDiscardChanges}
                         className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-500 text-sm transition-colors"
@@ -258,66 +597,98 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
 
             {/* Changes */}
             <div className="flex-1 overflow-y-auto space-y-2">
-                {changedFiles.map((file) => (
-                    <div
-                        key={file.id}
-                        className="border border-dark-accent/20 rounded-md overflow-hidden"
-                    >
-                        {/* File Header */}
-                        <div className="flex items-center justify-between p-3 bg-light-bg-alt dark:bg-dark-bg-alt">
-                            <div className="flex items-center space-x-2">
-                                <input
-                                    type="checkbox"
-                                    checked={stagedFiles.has(file.id)}
-                                    onChange={() => toggleStaged(file.id)}
-                                    className="rounded"
-                                />
-                                {getFileIcon(file)}
-                                <span className="font-medium text-dark-text dark:text-dark-text">{file.name}</span>
-                                <span className="text-xs text-dark-text-alt bg-dark-accent/20 px-2 py-1 rounded">
-                                    {file.language}
-                                </span>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                                {getStatusIcon(file.gitStatus!)}
-                                <span className="text-xs text-dark-text-alt">
-                                    {file.gitStatus === 'A' ? 'Added' : file.gitStatus === 'M' ? 'Modified' : 'Untracked'}
-                                </span>
-                                <button
-                                    onClick={() => onFileOpen(file)}
-                                    className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
-                                >
-                                    Open
-                                </button>
-                            </div>
-                        </div>
+                {changedFiles.map((change, position) => {
+                    const { file } = change;
+                    const isDeleted = change.status === 'D';
+                    const { staged, unstaged } = getFileDiff(change, position);
+                    const selectedLines = (section: 'staged' | 'unstaged') =>
+                        lineSelection?.fileId === file.id && lineSelection.section === section ? lineSelection.indices : new Set<number>();
 
-                        {/* File Diff */}
-                        {file.gitStatus === 'M' && (
-                            <div className="p-3 bg-light-bg dark:bg-dark-bg text-xs font-mono">
-                                <div className="text-dark-text-alt mb-2">Changes:</div>
-                                {getFileDiff(file)?.map((diffLine, index) => (
-                                    <div
-                                        key={index}
-                                        className={`py-1 ${
-                                            diffLine.type === 'added' ? 'bg-green-500/20 text-green-700 dark:text-green-400' :
-                                            diffLine.type === 'removed' ? 'bg-red-500/20 text-red-700 dark:text-red-400' :
-                                            'text-dark-text-alt'
-                                        }`}
+                    return (
+                        <div
+                            key={file.id}
+                            className="border border-dark-accent/20 rounded-md overflow-hidden"
+                        >
+                            {/* File Header */}
+                            <div className="flex items-center justify-between p-3 bg-light-bg-alt dark:bg-dark-bg-alt">
+                                <div className="flex items-center space-x-2 min-w-0">
+                                    <input
+                                        type="checkbox"
+                                        checked={isFullyStaged(change)}
+                                        ref={el => {
+                                            if (el) el.indeterminate = index[file.id] !== undefined && !isFullyStaged(change);
+                                        }}
+                                        onChange={() => toggleStaged(change)}
+                                        aria-label={`Stage ${file.name}`}
+                                        className="rounded"
+                                    />
+                                    {getFileIcon(file)}
+                                    <span
+                                        className={`font-medium text-dark-text dark:text-dark-text ${isDeleted ? 'line-through' : ''}`}
+                                        title={change.path ?? change.oldPath!}
                                     >
-                                        <span className="inline-block w-8 text-right mr-2 opacity-50">
-                                            {diffLine.lineNumber}
-                                        </span>
-                                        <span className={diffLine.type === 'added' ? 'text-green-600' : diffLine.type === 'removed' ? 'text-red-600' : ''}>
-                                            {diffLine.type === 'added' ? '+' : diffLine.type === 'removed' ? '-' : ' '}
+                                        {file.name}
+                                    </span>
+                                    {change.status === 'R' ? (
+                                        <span className="text-xs text-dark-text-alt truncate">{change.oldPath} → {change.path}</span>
+                                    ) : (
+                                        <span className="text-xs text-dark-text-alt bg-dark-accent/20 px-2 py-1 rounded">
+                                            {file.language}
                                         </span>
-                                        {diffLine.line}
-                                    </div>
-                                ))}
+                                    )}
+                                </div>
+                                <div className="flex items-center space-x-2 flex-shrink-0">
+                                    {getStatusIcon(change.status)}
+                                    <span className="text-xs text-dark-text-alt">
+                                        {describeChange(change)}
+                                        {index[file.id] !== undefined && (isFullyStaged(change) ? ' · staged' : ' · partially staged')}
+                                    </span>
+                                    {!isDeleted && (
+                                        <button
+                                            onClick={() => onShowDiff(file)}
+                                            className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                                        >
+                                            Diff
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => isDeleted ? restoreFile(change) : onFileOpen(file)}
+                                        className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                                    >
+                                        {isDeleted ? 'Restore' : 'Open'}
+                                    </button>
+                                </div>
                             </div>
-                        )}
-                    </div>
-                ))}
+
+                            {/* File Diff. A deletion is staged or restored as a whole. */}
+                            <div className="p-3 bg-light-bg dark:bg-dark-bg text-xs font-mono space-y-3">
+                                {!staged || !unstaged ? (
+                                    <div className="text-dark-text-alt">Computing diff…</div>
+                                ) : (
+                                    <>
+                                    <DiffHunks
+                                        title="Staged changes"
+                                        diff={staged}
+                                        selected={selectedLines('staged')}
+                                        onToggleLine={i => !isDeleted && toggleLine(file.id, 'staged', i)}
+                                        actions={isDeleted ? [] : [{ label: 'Unstage', onApply: indices => unstageLines(change, staged, indices) }]}
+                                    />
+                                    <DiffHunks
+                                        title={staged.length > 0 ? 'Unstaged changes' : 'Changes'}
+                                        diff={unstaged}
+                                        selected={selectedLines('unstaged')}
+                                        onToggleLine={i => !isDeleted && toggleLine(file.id, 'unstaged', i)}
+                                        actions={isDeleted ? [] : [
+                                            { label: 'Stage', onApply: indices => stageLines(change, unstaged, indices) },
+                                            { label: 'Discard', onApply: indices => discardLines(change, unstaged, indices), danger: true },
+                                        ]}
+                                    />
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
 
                 {!hasChanges && (
                     <div className="text-center py-8 text-dark-text-alt">
@@ -327,6 +698,85 @@ const GitView: React.FC<GitViewProps> = ({ fileSystem, savedFileSystem, theme, o
                     </div>
                 )}
             </div>
+
+            {/* Stashes */}
+            {stashes.length > 0 && (
+                <div className="flex-shrink-0">
+                    <h3 className="text-xs font-semibold uppercase tracking-wide text-dark-text-alt mb-2">
+                        Stashes ({stashes.length})
+                    </h3>
+                    <ul className="space-y-1 max-h-32 overflow-y-auto" aria-label="Stashes">
+                        {stashes.map((stash, n) => (
+                            <li key={stash.id} className="flex items-center justify-between text-sm">
+                                <span className="truncate text-dark-text dark:text-dark-text" title={formatCommitDate(stash.timestamp)}>
+                                    <span className="font-mono text-xs text-dark-text-alt mr-2">{`stash@{${n}}`}</span>
+                                    {stash.message}
+                                </span>
+                                <span className="flex-shrink-0 flex space-x-1 text-xs">
+                                    <button onClick={() => handleStashApply(n, true)} disabled={!!mergeState} className="px-1 rounded hover:bg-dark-accent/20 disabled:opacity-40">Pop</button>
+                                    <button onClick={() => handleStashApply(n, false)} disabled={!!mergeState} className="px-1 rounded hover:bg-dark-accent/20 disabled:opacity-40">Apply</button>
+                                    <button onClick={() => handleStashDrop(n)} className="px-1 rounded hover:bg-red-500/20 text-red-500">Drop</button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* History */}
+            <div className="flex-shrink-0 max-h-[40%] flex flex-col">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-dark-text-alt mb-2">
+                    History ({log.length})
+                </h3>
+                <ul className="overflow-y-auto space-y-1" aria-label="Commit history">
+                    {log.map((commit, index) => (
+                        <li key={commit.id} className="rounded-md border border-dark-accent/20">
+                            <button
+                                onClick={() => setExpandedCommitId(expandedCommitId === commit.id ? null : commit.id)}
+                                aria-expanded={expandedCommitId === commit.id}
+                                className="w-full text-left p-2 hover:bg-dark-accent/10"
+                            >
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm text-dark-text dark:text-dark-text truncate">{commit.message.split('\n')[0]}</span>
+                                    <span className="ml-2 flex-shrink-0 font-mono text-xs text-dark-text-alt">
+                                        {index === 0 && <span className="mr-1 px-1 rounded bg-dark-accent text-white">HEAD</span>}
+                                        {commit.id.slice(0, 7)}
+                                    </span>
+                                </div>
+                                <div className="text-xs text-dark-text-alt">
+                                    {commit.author} · {formatCommitDate(commit.timestamp)}
+                                </div>
+                            </button>
+                            {expandedCommitId === commit.id && (
+                                <ul className="px-2 pb-2 space-y-1">
+                                    {getCommitChanges(commit.id).map(({ file, status, oldPath, path }) => (
+                                        <li key={file.id} className="flex items-center justify-between text-xs">
+                                            <span className="flex items-center space-x-2 text-dark-text dark:text-dark-text" title={status === 'R' ? `${oldPath} → ${path}` : path ?? oldPath!}>
+                                                {getStatusIcon(status)}
+                                                <span className={status === 'D' ? 'line-through' : ''}>{file.name}</span>
+                                            </span>
+                                            <button
+                                                onClick={() => openRevision(status === 'D' ? commit.parentId! : commit.id, file.id)}
+                                                className="px-2 py-0.5 bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                                            >
+                                                Open
+                                            </button>
+                                        </li>
+                                    ))}
+                                    <li className="flex justify-end">
+                                        <button
+                                            onClick={() => onExportDiff(commit.id)}
+                                            className="px-2 py-0.5 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                                        >
+                                            Export Diff
+                                        </button>
+                                    </li>
+                                </ul>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
         </div>
     );
 };
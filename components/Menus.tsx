@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { CloseIcon } from './icons';
-import { Command } from '../types';
+import { Command, PatchFileResult, PatchHunkResult } from '../types';
 
 
 // --- Context Menu Component ---
@@ -295,4 +295,135 @@ export const NewItemModal: React.FC<NewItemModalProps> = ({ isOpen, onClose, onC
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
+
+// --- Apply Patch Modal Component ---
+interface ApplyPatchModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Applies the patch and returns the report, or null if it could not be read
+    onApply: (text: string) => PatchFileResult[] | null;
+}
+
+const describeHunk = (hunk: PatchHunkResult) => {
+    if (!hunk.applied) return hunk.reason ? `rejected: ${hunk.reason}` : 'rejected';
+    const details = [
+        hunk.offset !== 0 && `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset} line${Math.abs(hunk.offset) !== 1 ? 's' : ''}`,
+        hunk.fuzz > 0 && `fuzz ${hunk.fuzz}`,
+    ].filter(Boolean);
+    return details.length > 0 ? `applied (${details.join(', ')})` : 'applied';
+};
+
+export const ApplyPatchModal: React.FC<ApplyPatchModalProps> = ({ isOpen, onClose, onApply }) => {
+    const [patchText, setPatchText] = useState('');
+    const [report, setReport] = useState<PatchFileResult[] | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setPatchText('');
+            setReport(null);
+        }
+    }, [isOpen]);
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setPatchText(await file.text());
+    };
+
+    if (!isOpen) return null;
+
+    const hunks = report?.flatMap(file => file.hunks) ?? [];
+    const appliedCount = hunks.filter(hunk => hunk.applied).length;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={onClose}>
+            <div
+                className="bg-light-sidebar dark:bg-dark-sidebar p-6 rounded-lg shadow-2xl w-full max-w-2xl border border-light-border dark:border-dark-border"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">{report ? 'Patch Report' : 'Apply Patch'}</h2>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-dark-accent/20">
+                        <CloseIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {report ? (
+                    <div className="space-y-3">
+                        <p className="text-sm">
+                            {appliedCount} of {hunks.length} hunk{hunks.length !== 1 ? 's' : ''} applied
+                        </p>
+                        <ul className="max-h-96 overflow-y-auto space-y-2 text-sm" aria-label="Patch report">
+                            {report.map((file, n) => (
+                                <li key={n} className="border border-dark-accent/20 rounded p-2">
+                                    <div className="font-medium">
+                                        {file.oldPath && file.path && file.oldPath !== file.path
+                                            ? `${file.oldPath} → ${file.path}`
+                                            : file.path ?? `${file.oldPath} (deleted)`}
+                                        {!file.oldPath && ' (new)'}
+                                    </div>
+                                    {file.error && <p className="text-red-500 text-xs">{file.error}</p>}
+                                    <ul className="mt-1 space-y-0.5 text-xs font-mono">
+                                        {file.hunks.map((hunk, i) => (
+                                            <li key={i} className={hunk.applied ? 'text-green-600 dark:text-green-400' : 'text-red-500'}>
+                                                {hunk.header} {describeHunk(hunk)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex justify-end space-x-3">
+                            <button
+                                onClick={() => setReport(null)}
+                                className="px-4 py-2 text-dark-text-alt dark:text-dark-text-alt hover:text-dark-text dark:hover:text-dark-text transition-colors"
+                            >
+                                Apply Another
+                            </button>
+                            <button onClick={onClose} className="px-4 py-2 bg-dark-accent hover:bg-dark-accent/80 text-white rounded-md transition-colors">
+                                Done
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <textarea
+                            value={patchText}
+                            onChange={e => setPatchText(e.target.value)}
+                            placeholder="Paste a unified diff (git diff, git format-patch or diff -u)..."
+                            spellCheck={false}
+                            aria-label="Patch"
+                            className="w-full h-64 px-3 py-2 bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md text-xs font-mono focus:outline-none"
+                        />
+                        <div className="flex justify-between">
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="px-4 py-2 bg-dark-accent/20 hover:bg-dark-accent/30 rounded-md text-sm transition-colors"
+                            >
+                                Upload .patch...
+                            </button>
+                            <input ref={fileInputRef} type="file" accept=".patch,.diff,text/plain" onChange={handleUpload} className="hidden" />
+                            <div className="flex space-x-3">
+                                <button
+                                    onClick={onClose}
+                                    className="px-4 py-2 text-dark-text-alt dark:text-dark-text-alt hover:text-dark-text dark:hover:text-dark-text transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={() => setReport(onApply(patchText))}
+                                    disabled={!patchText.trim()}
+                                    className="px-4 py-2 bg-dark-accent hover:bg-dark-accent/80 disabled:bg-dark-accent/30 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+                                >
+                                    Apply
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
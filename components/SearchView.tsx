@@ -1,69 +1,138 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { File, FileSystemNode, Theme } from '../types';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import { File, FileSystemNode, Theme, ReplaceOperation, TextSelection, SupportedLanguage } from '../types';
+import { buildSearchRegex, findMatches, getReplacement, applyReplacements, groupMatchLines, createPathFilter, SearchMatch, ResultLine } from '../search';
+import { useSearchCandidates } from '../hooks/useSearchIndex';
+import { languageForName } from '../hooks/useGitInterop';
 import { 
     FileIcon, TypescriptIcon, JsIcon, CssIcon, HtmlIcon, JsonIcon, ReactIcon,
-    SearchIcon, ReplaceIcon, PlusIcon, MinusIcon
+    SearchIcon, ReplaceIcon, PlusIcon, MinusIcon, ChevronRightIcon, ChevronDownIcon
 } from './icons';
 
 interface SearchViewProps {
     fileSystem: any[];
     theme: Theme;
-    onFileOpen: (file: File) => void;
+    // With a selection, the editor selects it and scrolls to it
+    onFileOpen: (file: File, selection?: TextSelection) => void;
+    // Files open in the editor, for "Open files only"
+    openFileIds: string[];
+    // New contents of the files a replace changed, and how many matches it replaced
+    onReplace: (edits: { fileId: string; content: string }[], matches: number) => void;
+    lastReplace: ReplaceOperation | null;
+    onUndoReplace: () => void;
 }
 
-const SearchView: React.FC<SearchViewProps> = ({ fileSystem, theme, onFileOpen }) => {
+interface SearchResult {
+    file: File;
+    // Where the term appears in the file name; names are always matched literally
+    nameMatches: SearchMatch[];
+    matches: SearchMatch[];
+}
+
+interface ReplacePreview {
+    match: SearchMatch;
+    key: string;
+    replacement: string;
+}
+
+// Characters of the line shown before a match in results and the replace preview
+const PREVIEW_CONTEXT = 30;
+// Lines shown around each matching line, and matching lines listed per file
+const CONTEXT_LINES = 1;
+const MAX_RESULT_LINES = 100;
+
+const LANGUAGES: SupportedLanguage[] = ['typescript', 'javascript', 'html', 'css', 'json', 'markdown'];
+
+const SearchView: React.FC<SearchViewProps> = ({ fileSystem, theme, onFileOpen, openFileIds, onReplace, lastReplace, onUndoReplace }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [replaceTerm, setReplaceTerm] = useState('');
     const [searchInContent, setSearchInContent] = useState(true);
     const [useRegex, setUseRegex] = useState(false);
     const [caseSensitive, setCaseSensitive] = useState(false);
+    const [wholeWord, setWholeWord] = useState(false);
+    const [showFilters, setShowFilters] = useState(false);
+    const [includeGlobs, setIncludeGlobs] = useState('');
+    const [excludeGlobs, setExcludeGlobs] = useState('');
+    const [language, setLanguage] = useState<SupportedLanguage | 'all'>('all');
+    const [openFilesOnly, setOpenFilesOnly] = useState(false);
     const [showReplace, setShowReplace] = useState(false);
+    const [preserveCase, setPreserveCase] = useState(false);
+    // Matches left out of the replace, as "<file id>:<offset>"
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+    // The index answers from a worker; only the files it cannot rule out are scanned
+    const candidates = useSearchCandidates(searchTerm.trim() ? searchTerm : '', useRegex, fileSystem);
+
+    const searchFiles = useCallback((term: string): SearchResult[] => {
+        if (!term.trim() || candidates === undefined) return [];
 
-    const searchFiles = useCallback((term: string) => {
-        if (!term.trim()) return [];
-        
-        const results: File[] = [];
-        const lowerCaseTerm = term.toLowerCase();
-        
-        const searchRecursive = (nodes: FileSystemNode[]) => {
+        const results: SearchResult[] = [];
+        const nameRegex = buildSearchRegex(term, { caseSensitive });
+        const regex = searchInContent ? buildSearchRegex(term, { useRegex, caseSensitive, wholeWord }) : null;
+        const isIncluded = createPathFilter(includeGlobs, excludeGlobs);
+        const openIds = new Set(openFileIds);
+
+        const searchRecursive = (nodes: FileSystemNode[], prefix: string) => {
             for (const node of nodes) {
                 if (node.type === 'file') {
-                    const nameMatch = caseSensitive 
-                        ? node.name.includes(term)
-                        : node.name.toLowerCase().includes(lowerCaseTerm);
-                    
-                    let contentMatch = false;
-                    if (searchInContent) {
-                        if (useRegex) {
-                            try {
-                                const searchPattern = new RegExp(term, caseSensitive ? 'g' : 'gi');
-                                contentMatch = searchPattern.test(node.content);
-                            } catch (e) {
-                                // Invalid regex, skip
-                            }
-                        } else {
-                            contentMatch = caseSensitive 
-                                ? node.content.includes(term)
-                                : node.content.toLowerCase().includes(lowerCaseTerm);
-                        }
-                    }
-                    
-                    if (nameMatch || contentMatch) {
-                        results.push(node);
+                    if (candidates && !candidates.has(node.id)) continue;
+                    if (!isIncluded(prefix + node.name)) continue;
+                    // Files created in the app store their extension as the language, so go by the name
+                    if (language !== 'all' && languageForName(node.name) !== language) continue;
+                    if (openFilesOnly && !openIds.has(node.id)) continue;
+
+                    const nameMatches = nameRegex ? findMatches(node.name, nameRegex) : [];
+                    const matches = regex ? findMatches(node.content, regex) : [];
+
+                    if (nameMatches.length > 0 || matches.length > 0) {
+                        results.push({ file: node, nameMatches, matches });
                     }
                 }
                 if (node.type === 'folder') {
-                    searchRecursive(node.children);
+                    searchRecursive(node.children, `${prefix}${node.name}/`);
                 }
             }
         };
-        
-        searchRecursive(fileSystem);
+
+        searchRecursive(fileSystem, '');
         return results;
-    }, [fileSystem, searchInContent, useRegex, caseSensitive]);
+    }, [fileSystem, candidates, searchInContent, useRegex, caseSensitive, wholeWord, includeGlobs, excludeGlobs, language, openFilesOnly, openFileIds]);
 
     const searchResults = useMemo(() => searchFiles(searchTerm), [searchFiles, searchTerm]);
 
+    const totalMatches = useMemo(
+        () => searchResults.reduce((sum, { nameMatches, matches }) => sum + matches.length + (nameMatches.length > 0 ? 1 : 0), 0),
+        [searchResults]
+    );
+
+    const replaceOptions = useMemo(() => ({ useRegex, caseSensitive, preserveCase }), [useRegex, caseSensitive, preserveCase]);
+
+    // Every content match of the results with the text that would replace it
+    const replacePreviews = useMemo(() => {
+        const previews = new Map<string, ReplacePreview[]>();
+        if (!showReplace) return previews;
+        searchResults.forEach(({ file, matches }) => {
+            if (matches.length === 0) return;
+            previews.set(file.id, matches.map(match => ({
+                match,
+                key: `${file.id}:${match.start}`,
+                replacement: getReplacement(file.content, match, replaceTerm, replaceOptions),
+            })));
+        });
+        return previews;
+    }, [showReplace, searchResults, replaceTerm, replaceOptions]);
+
+    useEffect(() => {
+        setExcluded(new Set());
+    }, [searchTerm, replaceOptions, searchInContent]);
+
+    const toggleExcluded = (key: string) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        return next;
+    });
+
     const getFileIcon = (file: File) => {
         const commonProps = { className: "w-4 h-4" };
         if (file.name.endsWith('.tsx')) {
@@ -85,52 +154,123 @@ const SearchView: React.FC<SearchViewProps> = ({ fileSystem, theme, onFileOpen }
         }
     };
 
-    const highlightMatches = (text: string, term: string) => {
-        if (!term || !text) return text;
-        
-        if (useRegex) {
-            try {
-                const regex = new RegExp(`(${term})`, caseSensitive ? 'g' : 'gi');
-                return text.replace(regex, '<mark class="bg-yellow-300 dark:bg-yellow-600">$1</mark>');
-            } catch (e) {
-                return text;
-            }
-        } else {
-            const regex = new RegExp(`(${term})`, caseSensitive ? 'gi' : 'gi');
-            return text.replace(regex, '<mark class="bg-yellow-300 dark:bg-yellow-600">$1</mark>');
-        }
-    };
-
-    const getMatchCount = (file: File) => {
-        if (!searchTerm) return 0;
-        
+    const toggleCollapsed = (fileId: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(fileId)) next.delete(fileId);
+        else next.add(fileId);
+        return next;
+    });
+    // Replaces the included matches of the given files as one operation
+    const replaceInFiles = useCallback((files: File[]) => {
         let count = 0;
-        const term = caseSensitive ? searchTerm : searchTerm.toLowerCase();
-        const content = caseSensitive ? file.content : file.content.toLowerCase();
-        
-        if (file.name.toLowerCase().includes(term.toLowerCase())) count++;
-        
-        if (searchInContent) {
-            const matches = content.match(new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'));
-            count += matches ? matches.length : 0;
-        }
-        
-        return count;
-    };
+        const edits = files.flatMap(file => {
+            const included = (replacePreviews.get(file.id) ?? []).filter(preview => !excluded.has(preview.key));
+            if (included.length === 0) return [];
+            count += included.length;
+            const content = applyReplacements(file.content, included.map(p => p.match), included.map(p => p.replacement));
+            return [{ fileId: file.id, content }];
+        });
+        if (edits.length === 0) return;
+        onReplace(edits, count);
+        setExcluded(new Set());
+    }, [replacePreviews, excluded, onReplace]);
 
     const handleReplace = useCallback((file: File) => {
-        if (!searchTerm || !replaceTerm) return;
-        
-        // This would need to be integrated with the file system hook
-        alert(`Replace functionality would be implemented here for ${file.name}`);
-    }, [searchTerm, replaceTerm]);
+        replaceInFiles([file]);
+    }, [replaceInFiles]);
 
     const handleReplaceAll = useCallback(() => {
-        if (!searchTerm || !replaceTerm) return;
-        
-        // This would need to be integrated with the file system hook
-        alert(`Replace all functionality would be implemented here`);
-    }, [searchTerm, replaceTerm]);
+        const files = searchResults.filter(({ file }) => replacePreviews.has(file.id)).map(({ file }) => file);
+        const count = files.reduce((sum, file) => sum + replacePreviews.get(file.id)!.filter(p => !excluded.has(p.key)).length, 0);
+        if (count === 0) return;
+        if (window.confirm(`Replace ${count} occurrence${count !== 1 ? 's' : ''} across ${files.length} file${files.length !== 1 ? 's' : ''}?`)) {
+            replaceInFiles(files);
+        }
+    }, [searchResults, replacePreviews, excluded, replaceInFiles]);
+
+    // The file name with the term highlighted
+    const renderName = (name: string, nameMatches: SearchMatch[]) => {
+        const segments: React.ReactNode[] = [];
+        let position = 0;
+        nameMatches.forEach(match => {
+            segments.push(name.slice(position, match.start));
+            segments.push(
+                <mark key={match.start} className="bg-yellow-300 dark:bg-yellow-600 text-inherit rounded-sm">
+                    {name.slice(match.start, match.end)}
+                </mark>
+            );
+            position = match.end;
+        });
+        segments.push(name.slice(position));
+        return segments;
+    };
+
+    // A line of the results: the parts of matches on it are highlighted and open the file with
+    // the whole match selected; long lines start shortly before their first match
+    const renderResultLine = (file: File, line: ResultLine) => {
+        const lineEnd = line.start + line.text.length;
+        let position = line.ranges.length > 0 ? Math.max(line.start, line.ranges[0].start - PREVIEW_CONTEXT) : line.start;
+        const segments: React.ReactNode[] = position > line.start ? ['…'] : [];
+        line.ranges.forEach(({ start, end, match }) => {
+            segments.push(file.content.slice(position, start));
+            segments.push(
+                <mark
+                    key={start}
+                    onClick={e => {
+                        e.stopPropagation();
+                        onFileOpen(file, { start: match.start, end: match.end });
+                    }}
+                    className="bg-yellow-300 dark:bg-yellow-600 text-inherit rounded-sm"
+                >
+                    {start === end ? '↵' : file.content.slice(start, end)}
+                </mark>
+            );
+            position = end;
+        });
+        segments.push(file.content.slice(position, lineEnd));
+
+        const first = line.ranges[0]?.match;
+        return (
+            <li
+                key={line.number}
+                onClick={first ? e => {
+                    e.stopPropagation();
+                    onFileOpen(file, { start: first.start, end: first.end });
+                } : undefined}
+                className={`flex space-x-2 ${first ? 'hover:bg-dark-accent/10 cursor-pointer' : 'opacity-50'}`}
+            >
+                <span className="flex-shrink-0 w-8 text-right text-dark-text-alt select-none">{line.number}</span>
+                <span className="font-mono truncate">{segments}</span>
+            </li>
+        );
+    };
+
+    // The line of a match with the matched text struck through and its replacement after it
+    const renderPreview = (file: File, { match, key, replacement }: ReplacePreview) => {
+        const lineEnd = file.content.indexOf('\n', match.end);
+        const before = file.content.slice(Math.max(match.lineStart, match.start - PREVIEW_CONTEXT), match.start).trimStart();
+        const after = file.content.slice(match.end, lineEnd === -1 ? undefined : lineEnd);
+        const isExcluded = excluded.has(key);
+        return (
+            <li key={key} className={`flex items-start space-x-2 ${isExcluded ? 'opacity-50' : ''}`}>
+                <input
+                    type="checkbox"
+                    checked={!isExcluded}
+                    onChange={() => toggleExcluded(key)}
+                    onClick={e => e.stopPropagation()}
+                    aria-label={`Replace match on line ${match.line}`}
+                    className="mt-0.5 rounded"
+                />
+                <span className="flex-shrink-0 w-8 text-right text-dark-text-alt">{match.line}</span>
+                <span className="font-mono truncate">
+                    {before}
+                    <span className="line-through bg-red-500/20 text-red-500">{file.content.slice(match.start, match.end).replace(/\n/g, '↵')}</span>
+                    {!isExcluded && <span className="bg-green-500/20 text-green-500">{replacement.replace(/\n/g, '↵')}</span>}
+                    {after}
+                </span>
+            </li>
+        );
+    };
 
     return (
         <div className="h-full flex flex-col p-4 space-y-4">
@@ -165,15 +305,30 @@ const SearchView: React.FC<SearchViewProps> = ({ fileSystem, theme, onFileOpen }
                         />
                         <button
                             onClick={handleReplaceAll}
-                            className="px-3 py-2 bg-dark-accent hover:bg-dark-accent/80 rounded-md text-white transition-colors"
+                            disabled={replacePreviews.size === 0}
+                            className="px-3 py-2 bg-dark-accent hover:bg-dark-accent/80 rounded-md text-white transition-colors disabled:opacity-50"
                         >
                             Replace All
                         </button>
                     </div>
                 )}
 
+                {lastReplace && (
+                    <div className="flex items-center justify-between text-sm text-dark-text-alt">
+                        <span>
+                            Replaced {lastReplace.matches} occurrence{lastReplace.matches !== 1 ? 's' : ''} in {lastReplace.files.length} file{lastReplace.files.length !== 1 ? 's' : ''}
+                        </span>
+                        <button
+                            onClick={onUndoReplace}
+                            className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                        >
+                            Undo
+                        </button>
+                    </div>
+                )}
+
                 {/* Search Options */}
-                <div className="flex items-center space-x-4 text-sm">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
                     <label className="flex items-center space-x-2">
                         <input
                             type="checkbox"
@@ -201,68 +356,161 @@ const SearchView: React.FC<SearchViewProps> = ({ fileSystem, theme, onFileOpen }
                         />
                         <span>Case sensitive</span>
                     </label>
+                    <label className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={wholeWord}
+                            onChange={(e) => setWholeWord(e.target.checked)}
+                            className="rounded"
+                        />
+                        <span>Whole word</span>
+                    </label>
+                    {showReplace && (
+                        <label className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                checked={preserveCase}
+                                onChange={(e) => setPreserveCase(e.target.checked)}
+                                className="rounded"
+                            />
+                            <span>Preserve case</span>
+                        </label>
+                    )}
+                    <button
+                        onClick={() => setShowFilters(!showFilters)}
+                        aria-expanded={showFilters}
+                        className="text-dark-text-alt hover:text-dark-text dark:hover:text-dark-text"
+                    >
+                        {showFilters ? 'Hide filters' : 'Filters…'}
+                    </button>
                 </div>
+
+                {/* File Filters */}
+                {showFilters && (
+                    <div className="space-y-2 text-sm">
+                        <input
+                            type="text"
+                            value={includeGlobs}
+                            onChange={(e) => setIncludeGlobs(e.target.value)}
+                            placeholder="Files to include (e.g. src/**/*.tsx, !**/*.json)"
+                            aria-label="Files to include"
+                            className="w-full px-3 py-1.5 bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md text-dark-text dark:text-dark-text focus:outline-none"
+                        />
+                        <input
+                            type="text"
+                            value={excludeGlobs}
+                            onChange={(e) => setExcludeGlobs(e.target.value)}
+                            placeholder="Files to exclude (e.g. **/*.json, !package.json)"
+                            aria-label="Files to exclude"
+                            className="w-full px-3 py-1.5 bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md text-dark-text dark:text-dark-text focus:outline-none"
+                        />
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                            <select
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value as SupportedLanguage | 'all')}
+                                aria-label="Language"
+                                className="px-2 py-1 bg-light-bg dark:bg-dark-bg border border-dark-accent/30 rounded-md text-dark-text dark:text-dark-text focus:outline-none"
+                            >
+                                <option value="all">All languages</option>
+                                {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                            </select>
+                            <label className="flex items-center space-x-2">
+                                <input
+                                    type="checkbox"
+                                    checked={openFilesOnly}
+                                    onChange={(e) => setOpenFilesOnly(e.target.checked)}
+                                    className="rounded"
+                                />
+                                <span>Open files only</span>
+                            </label>
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Results */}
             <div className="flex-1 overflow-y-auto">
-                {searchTerm && (
+                {searchTerm && candidates === undefined && (
+                    <div className="mb-4 text-sm text-dark-text-alt">Searching…</div>
+                )}
+                {searchTerm && candidates !== undefined && (
                     <div className="mb-4 text-sm text-dark-text-alt">
-                        Found {searchResults.length} file{searchResults.length !== 1 ? 's' : ''} with matches
+                        Found {totalMatches} match{totalMatches !== 1 ? 'es' : ''} in {searchResults.length} file{searchResults.length !== 1 ? 's' : ''}
                     </div>
                 )}
                 
                 <div className="space-y-2">
-                    {searchResults.map((file) => (
-                        <div
-                            key={file.id}
-                            className="p-3 bg-light-bg-alt dark:bg-dark-bg-alt rounded-md border border-dark-accent/20 hover:border-dark-accent/40 transition-colors cursor-pointer"
-                            onClick={() => onFileOpen(file)}
-                        >
-                            <div className="flex items-center justify-between mb-2">
-                                <div className="flex items-center space-x-2">
-                                    {getFileIcon(file)}
-                                    <span className="font-medium text-dark-text dark:text-dark-text">{file.name}</span>
-                                    <span className="text-xs text-dark-text-alt bg-dark-accent/20 px-2 py-1 rounded">
-                                        {file.language}
-                                    </span>
-                                </div>
-                                <div className="flex items-center space-x-2">
-                                    <span className="text-xs text-dark-text-alt">
-                                        {getMatchCount(file)} match{getMatchCount(file) !== 1 ? 'es' : ''}
-                                    </span>
-                                    {showReplace && (
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                handleReplace(file);
-                                            }}
-                                            className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
-                                        >
-                                            Replace
-                                        </button>
-                                    )}
+                    {searchResults.map(({ file, nameMatches, matches }) => {
+                        const isCollapsed = collapsed.has(file.id);
+                        const count = matches.length + (nameMatches.length > 0 ? 1 : 0);
+                        const blocks = isCollapsed || replacePreviews.has(file.id) ? [] : groupMatchLines(file.content, matches, CONTEXT_LINES, MAX_RESULT_LINES);
+                        const hiddenLines = new Set(matches.map(match => match.line)).size - MAX_RESULT_LINES;
+                        return (
+                            <div
+                                key={file.id}
+                                className="p-3 bg-light-bg-alt dark:bg-dark-bg-alt rounded-md border border-dark-accent/20 hover:border-dark-accent/40 transition-colors cursor-pointer"
+                                onClick={() => onFileOpen(file)}
+                            >
+                                <div className="flex items-center justify-between mb-2">
+                                    <div className="flex items-center space-x-2 min-w-0">
+                                        {matches.length > 0 && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    toggleCollapsed(file.id);
+                                                }}
+                                                aria-expanded={!isCollapsed}
+                                                aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} results in ${file.name}`}
+                                                className="p-0.5 rounded hover:bg-dark-accent/20"
+                                            >
+                                                {isCollapsed ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+                                            </button>
+                                        )}
+                                        {getFileIcon(file)}
+                                        <span className="font-medium text-dark-text dark:text-dark-text truncate">{renderName(file.name, nameMatches)}</span>
+                                        <span className="text-xs text-dark-text-alt bg-dark-accent/20 px-2 py-1 rounded">
+                                            {file.language}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center space-x-2 flex-shrink-0">
+                                        <span className="text-xs text-dark-text-alt">
+                                            {count} match{count !== 1 ? 'es' : ''}
+                                        </span>
+                                        {replacePreviews.has(file.id) && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleReplace(file);
+                                                }}
+                                                className="px-2 py-1 text-xs bg-dark-accent/20 hover:bg-dark-accent/30 rounded text-dark-text dark:text-dark-text transition-colors"
+                                            >
+                                                Replace
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
+
+                                {!isCollapsed && replacePreviews.has(file.id) && (
+                                    <ul className="space-y-0.5 text-xs" aria-label={`Replacements in ${file.name}`}>
+                                        {replacePreviews.get(file.id)!.map(preview => renderPreview(file, preview))}
+                                    </ul>
+                                )}
+                                {blocks.map(block => (
+                                    <ul key={block[0].number} className="text-xs border-t border-dark-accent/10 first:border-t-0 py-0.5" aria-label={`Matches in ${file.name}`}>
+                                        {block.map(line => renderResultLine(file, line))}
+                                    </ul>
+                                ))}
+                                {!isCollapsed && !replacePreviews.has(file.id) && hiddenLines > 0 && (
+                                    <div className="text-xs text-dark-text-alt pl-10">
+                                        {hiddenLines} more matching line{hiddenLines !== 1 ? 's' : ''}
+                                    </div>
+                                )}
                             </div>
-                            
-                            {searchInContent && file.content && (
-                                <div className="text-sm text-dark-text-alt">
-                                    <div 
-                                        className="line-clamp-2"
-                                        dangerouslySetInnerHTML={{
-                                            __html: highlightMatches(
-                                                file.content.substring(0, 200) + (file.content.length > 200 ? '...' : ''),
-                                                searchTerm
-                                            )
-                                        }}
-                                    />
-                                </div>
-                            )}
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
 
-                {searchTerm && searchResults.length === 0 && (
+                {searchTerm && candidates !== undefined && searchResults.length === 0 && (
                     <div className="text-center py-8 text-dark-text-alt">
                         <SearchIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
                         <p>No files found matching "{searchTerm}"</p>
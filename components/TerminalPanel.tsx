@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { File, FileSystemNode } from '../types';
+import { useTerminal, TerminalFileOperations, TerminalCompletion } from '../hooks/useTerminal';
+import { TerminalSession } from '../hooks/useTerminalSessions';
+import { CloseIcon, PlusIcon, SplitIcon, TerminalIcon } from './icons';
+
+// --- TERMINAL COMPONENT ---
+interface IntegratedTerminalProps {
+    history: any[];
+    onCommand: (command: string) => void;
+    onNavigateHistory: (direction: 'up' | 'down') => string | null;
+    onSearchHistory: (query: string, before?: number) => { command: string; index: number } | null;
+    onComplete: (input: string) => TerminalCompletion;
+    onShowCompletions: (candidates: string[]) => void;
+    isFocused: boolean;
+}
+
+interface ReverseSearchState {
+    query: string;
+    match: { command: string; index: number } | null;
+}
+
+const IntegratedTerminal: React.FC<IntegratedTerminalProps> = ({
+    history, onCommand, onNavigateHistory, onSearchHistory, onComplete, onShowCompletions, isFocused
+}) => {
+    const [inputValue, setInputValue] = useState('');
+    const [reverseSearch, setReverseSearch] = useState<ReverseSearchState | null>(null);
+    const endOfHistoryRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const updateReverseSearch = (query: string, before?: number) => {
+        const match = onSearchHistory(query, before);
+        // Keep showing the previous match while the query has no newer hit (as bash does)
+        setReverseSearch(prev => ({ query, match: match ?? (before !== undefined ? prev?.match ?? null : null) }));
+    };
+
+    const exitReverseSearch = (accept: boolean) => {
+        if (accept && reverseSearch?.match) {
+            setInputValue(reverseSearch.match.command);
+        }
+        setReverseSearch(null);
+    };
+
+    const handleReverseSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!reverseSearch) return;
+        if (e.ctrlKey && e.key === 'r') {
+            e.preventDefault();
+            updateReverseSearch(reverseSearch.query, reverseSearch.match?.index);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (reverseSearch.match) {
+                onCommand(reverseSearch.match.command);
+            }
+            setInputValue('');
+            setReverseSearch(null);
+        } else if (e.key === 'Escape' || (e.ctrlKey && e.key === 'g')) {
+            e.preventDefault();
+            exitReverseSearch(false);
+        } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown' || e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Tab') {
+            e.preventDefault();
+            exitReverseSearch(true);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (reverseSearch) {
+            handleReverseSearchKeyDown(e);
+            return;
+        }
+
+        if (e.key === 'Enter' && inputValue.trim()) {
+            onCommand(inputValue);
+            setInputValue('');
+        } else if (e.key === 'Tab') {
+            e.preventDefault();
+            const { value, candidates } = onComplete(inputValue);
+            setInputValue(value);
+            if (candidates.length > 0) {
+                onShowCompletions(candidates);
+            }
+        } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            const command = onNavigateHistory(e.key === 'ArrowUp' ? 'up' : 'down');
+            if (command !== null) {
+                setInputValue(command);
+            }
+        } else if (e.ctrlKey && e.key === 'r') {
+            e.preventDefault();
+            updateReverseSearch('');
+        }
+    };
+
+    useEffect(() => {
+        endOfHistoryRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [history]);
+
+    useEffect(() => {
+        if (isFocused) {
+            inputRef.current?.focus();
+        }
+    }, [isFocused]);
+
+    return (
+        <div className="bg-light-bg dark:bg-dark-bg h-full w-full p-2 font-mono text-sm flex flex-col" onClick={() => inputRef.current?.focus()}>
+            <div className="flex-grow overflow-y-auto">
+                {history.map(line => (
+                    <div key={line.id}>
+                        {line.type === 'input' && (
+                            <div className="flex items-center">
+                                <span className="text-green-400 mr-2 flex-shrink-0">nexus-code &gt;</span>
+                                <span className="flex-1 text-dark-text dark:text-dark-text">{line.content}</span>
+                            </div>
+                        )}
+                        {line.type === 'output' && (
+                            <div className="text-dark-text-alt dark:text-dark-text whitespace-pre-wrap">{line.content}</div>
+                        )}
+                    </div>
+                ))}
+                <div ref={endOfHistoryRef} />
+            </div>
+            <div className="flex items-center mt-1">
+                <span className="text-green-400 mr-2 flex-shrink-0">
+                    {reverseSearch ? `(reverse-i-search)'${reverseSearch.query}':` : 'nexus-code >'}
+                </span>
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={reverseSearch ? reverseSearch.query : inputValue}
+                    onChange={e => reverseSearch ? updateReverseSearch(e.target.value) : setInputValue(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => reverseSearch && exitReverseSearch(true)}
+                    className={`${reverseSearch ? 'w-24' : 'flex-1'} bg-transparent border-none outline-none text-dark-text dark:text-dark-text p-0`}
+                    aria-label={reverseSearch ? 'Reverse history search' : 'Terminal input'}
+                />
+                {reverseSearch && (
+                    <span className="flex-1 truncate text-dark-text dark:text-dark-text">
+                        {reverseSearch.match?.command ?? ''}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- TERMINAL INSTANCE ---
+// Owns one useTerminal; kept mounted while hidden so history and cwd survive tab switches
+interface TerminalInstanceProps {
+    session: TerminalSession;
+    scrollback: number;
+    fileSystem: FileSystemNode[];
+    onFileOpen: (file: File) => void;
+    fileOperations: TerminalFileOperations;
+    isVisible: boolean;
+    isFocused: boolean;
+    onFocus: () => void;
+    registerPrinter: (sessionId: string, print: (content: string) => void) => () => void;
+}
+
+const TerminalInstance: React.FC<TerminalInstanceProps> = ({
+    session, scrollback, fileSystem, onFileOpen, fileOperations, isVisible, isFocused, onFocus, registerPrinter
+}) => {
+    const {
+        history,
+        executeCommand,
+        navigateHistory,
+        searchHistory,
+        completeInput,
+        addToHistory
+    } = useTerminal(fileSystem, onFileOpen, fileOperations, { sessionId: session.id, scrollback });
+
+    useEffect(() => {
+        return registerPrinter(session.id, content => addToHistory('output', content));
+    }, [session.id, registerPrinter, addToHistory]);
+
+    return (
+        <div
+            className={isVisible ? 'flex-1 min-w-0 h-full border-l first:border-l-0 border-light-border dark:border-dark-border' : 'hidden'}
+            onMouseDown={onFocus}
+        >
+            <IntegratedTerminal
+                history={history}
+                onCommand={executeCommand}
+                onNavigateHistory={navigateHistory}
+                onSearchHistory={searchHistory}
+                onComplete={completeInput}
+                onShowCompletions={candidates => addToHistory('output', candidates.join('  '))}
+                isFocused={isVisible && isFocused}
+            />
+        </div>
+    );
+};
+
+// --- TERMINAL PANEL ---
+interface TerminalPanelProps {
+    isOpen: boolean;
+    sessions: TerminalSession[];
+    activeSessionId: string;
+    panes: string[];
+    isSplit: boolean;
+    height: number;
+    scrollback: number;
+    fileSystem: FileSystemNode[];
+    onFileOpen: (file: File) => void;
+    fileOperations: TerminalFileOperations;
+    onNewSession: () => void;
+    onActivateSession: (sessionId: string) => void;
+    onCloseSession: (sessionId: string) => void;
+    onRenameSession: (sessionId: string, name: string) => void;
+    onToggleSplit: () => void;
+    onResize: (height: number) => void;
+    onClosePanel: () => void;
+    registerPrinter: (sessionId: string, print: (content: string) => void) => () => void;
+}
+
+const TerminalPanel: React.FC<TerminalPanelProps> = ({
+    isOpen, sessions, activeSessionId, panes, isSplit, height, scrollback, fileSystem, onFileOpen, fileOperations,
+    onNewSession, onActivateSession, onCloseSession, onRenameSession, onToggleSplit, onResize, onClosePanel, registerPrinter
+}) => {
+    const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const startResize = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        const startY = e.clientY;
+        const startHeight = height;
+
+        const handleMouseMove = (event: MouseEvent) => onResize(startHeight + startY - event.clientY);
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+        };
+
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+    }, [height, onResize]);
+
+    const confirmRename = () => {
+        if (renamingSessionId) {
+            onRenameSession(renamingSessionId, renameValue);
+        }
+        setRenamingSessionId(null);
+    };
+
+    // Visible panes first, in pane order; keys keep hidden sessions mounted without remounting
+    const orderedSessions = [
+        ...panes.map(id => sessions.find(s => s.id === id)).filter((s): s is TerminalSession => !!s),
+        ...sessions.filter(s => !panes.includes(s.id)),
+    ];
+
+    return (
+        <div
+            className={isOpen ? 'flex-shrink-0 flex flex-col bg-light-bg dark:bg-dark-bg' : 'hidden'}
+            style={{ height }}
+        >
+            <div
+                className="h-1 flex-shrink-0 cursor-row-resize bg-light-border dark:bg-dark-border hover:bg-dark-accent transition-colors"
+                onMouseDown={startResize}
+                role="separator"
+                aria-orientation="horizontal"
+                aria-label="Resize terminal panel"
+            />
+            <div role="tablist" aria-label="Terminals" className="flex-shrink-0 flex items-center justify-between bg-light-sidebar dark:bg-dark-sidebar text-xs">
+                <div className="flex items-center overflow-x-auto">
+                    {sessions.map(session => (
+                        <div
+                            key={session.id}
+                            role="tab"
+                            aria-selected={session.id === activeSessionId}
+                            onClick={() => onActivateSession(session.id)}
+                            onDoubleClick={() => {
+                                setRenamingSessionId(session.id);
+                                setRenameValue(session.name);
+                            }}
+                            className={`flex items-center px-3 py-1 cursor-pointer border-r border-r-dark-bg dark:border-r-dark-bg ${
+                                session.id === activeSessionId
+                                    ? 'bg-light-bg dark:bg-dark-bg'
+                                    : panes.includes(session.id)
+                                        ? 'bg-light-bg/50 dark:bg-dark-bg/50'
+                                        : 'hover:bg-light-bg-alt/50 dark:hover:bg-dark-bg-alt/50 text-dark-text-alt'
+                            }`}
+                        >
+                            <TerminalIcon className="w-3 h-3 mr-1 flex-shrink-0" />
+                            {renamingSessionId === session.id ? (
+                                <input
+                                    autoFocus
+                                    value={renameValue}
+                                    onChange={e => setRenameValue(e.target.value)}
+                                    onBlur={confirmRename}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') confirmRename();
+                                        if (e.key === 'Escape') setRenamingSessionId(null);
+                                    }}
+                                    onClick={e => e.stopPropagation()}
+                                    className="w-24 bg-light-bg dark:bg-dark-bg border border-dark-accent rounded px-1"
+                                    aria-label="Terminal name"
+                                />
+                            ) : (
+                                <span className="pr-2">{session.name}</span>
+                            )}
+                            <button
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onCloseSession(session.id);
+                                }}
+                                aria-label={`Close ${session.name}`}
+                                className="p-0.5 rounded-full hover:bg-dark-accent/20"
+                            >
+                                <CloseIcon className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex items-center px-2 space-x-1">
+                    <button onClick={onNewSession} title="New Terminal" aria-label="New Terminal" className="p-1 rounded hover:bg-dark-accent/20">
+                        <PlusIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onToggleSplit} title={isSplit ? 'Unsplit Terminal' : 'Split Terminal'} aria-pressed={isSplit} className="p-1 rounded hover:bg-dark-accent/20">
+                        <SplitIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onClosePanel} title="Hide Panel" aria-label="Hide Panel" className="p-1 rounded hover:bg-dark-accent/20">
+                        <CloseIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 flex min-h-0">
+                {orderedSessions.map(session => (
+                    <TerminalInstance
+                        key={session.id}
+                        session={session}
+                        scrollback={scrollback}
+                        fileSystem={fileSystem}
+                        onFileOpen={onFileOpen}
+                        fileOperations={fileOperations}
+                        isVisible={isOpen && panes.includes(session.id)}
+                        isFocused={session.id === activeSessionId}
+                        onFocus={() => onActivateSession(session.id)}
+                        registerPrinter={registerPrinter}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default TerminalPanel;
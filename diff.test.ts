@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { generateDiff, DiffLine } from './diff';
+
+// The old and new texts a diff describes
+const oldSide = (diff: DiffLine[]) => diff.filter(line => line.type !== 'add').map(line => line.oldContent ?? line.content).join('\n');
+const newSide = (diff: DiffLine[]) => diff.filter(line => line.type !== 'del').map(line => line.content).join('\n');
+const outline = (diff: DiffLine[]) => diff.map(line => `${{ common: ' ', add: '+', del: '-' }[line.type]}${line.content}`);
+
+// Length of the longest common subsequence, the slow way
+const lcsLength = (a: string[], b: string[]) => {
+  let row = new Array<number>(b.length + 1).fill(0);
+  for (const line of a) {
+    const next = [0];
+    for (let j = 0; j < b.length; j++) next.push(line === b[j] ? row[j] + 1 : Math.max(row[j + 1], next[j]));
+    row = next;
+  }
+  return row[b.length];
+};
+
+describe('generateDiff', () => {
+  it('adds every line to an empty old text', () => {
+    expect(outline(generateDiff('', 'a\nb'))).toEqual(['+a', '+b']);
+  });
+
+  it('removes every line when the new text is empty', () => {
+    const diff = generateDiff('a\nb', '');
+    expect(outline(diff)).toEqual(['-a', '-b', '+']);
+    expect(newSide(diff)).toBe('');
+  });
+
+  it('keeps every line of identical texts', () => {
+    const diff = generateDiff('a\nb\nc', 'a\nb\nc');
+    expect(outline(diff)).toEqual([' a', ' b', ' c']);
+    expect(diff.some(line => line.oldContent !== undefined)).toBe(false);
+  });
+
+  it('puts deletions before additions within a change', () => {
+    expect(outline(generateDiff('a\nb\nc', 'a\nx\ny\nc'))).toEqual([' a', '-b', '+x', '+y', ' c']);
+  });
+
+  it('ignores whitespace when asked, keeping the old text of matched lines', () => {
+    expect(outline(generateDiff('a b\nc', 'ab\nc'))).toEqual(['-a b', '+ab', ' c']);
+    const diff = generateDiff('a b\n\tc', 'ab\nc', { ignoreWhitespace: true });
+    expect(outline(diff)).toEqual([' ab', ' c']);
+    expect(diff.map(line => line.oldContent)).toEqual(['a b', '\tc']);
+  });
+
+  it('ignores line endings when asked', () => {
+    expect(outline(generateDiff('a\r\nb', 'a\nb'))).toEqual(['-a\r', '+a', ' b']);
+    const diff = generateDiff('a\r\nb\r', 'a\nb', { ignoreLineEndings: true });
+    expect(outline(diff)).toEqual([' a', ' b']);
+    expect(oldSide(diff)).toBe('a\r\nb\r');
+  });
+
+  it('describes both texts and keeps as many lines as possible', () => {
+    // Small alphabet so random texts share many lines; seeded for repeatable runs
+    let seed = 42;
+    const random = () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) / 2 ** 32;
+    const randomText = () => Array.from({ length: Math.floor(random() * 30) }, () => 'abcde'[Math.floor(random() * 5)]).join('\n');
+
+    for (let run = 0; run < 300; run++) {
+      const oldStr = randomText();
+      const newStr = run % 3 === 0 ? oldStr.replace(/c/g, 'x') : randomText();
+      const diff = generateDiff(oldStr, newStr);
+      expect(oldSide(diff)).toBe(oldStr);
+      expect(newSide(diff)).toBe(newStr);
+      if (oldStr) {
+        const common = diff.filter(line => line.type === 'common').length;
+        expect(common).toBe(lcsLength(oldStr.split('\n'), newStr.split('\n')));
+      }
+    }
+  });
+});
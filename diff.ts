@@ -0,0 +1,160 @@
+// Line diff shared by the diff view, the Git view and patch export. Myers' O(ND) algorithm
+// in linear space: each step finds the middle snake of the shortest edit script and
+// splits the problem in two there.
+
+export interface DiffLine {
+  type: 'common' | 'add' | 'del';
+  content: string;
+  // Old text of a common line that only matched thanks to the ignore options
+  oldContent?: string;
+}
+
+export interface DiffOptions {
+  // Lines that differ only in spaces and tabs compare equal (git diff -w)
+  ignoreWhitespace?: boolean;
+  // A trailing \r is not a difference (CRLF vs LF)
+  ignoreLineEndings?: boolean;
+}
+
+const normalizeLine = (line: string, options: DiffOptions) => {
+  if (options.ignoreLineEndings && line.endsWith('\r')) line = line.slice(0, -1);
+  if (options.ignoreWhitespace) line = line.replace(/\s+/g, '');
+  return line;
+};
+
+// Furthest-reaching forward and backward paths over a[aLo, aHi) and b[bLo, bHi) until they
+// overlap; returns the split point (relative to aLo/bLo), or null when nothing is in common
+const findMiddleSnake = (a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number): [number, number] | null => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending the forward one
+  const checkForward = delta % 2 !== 0;
+  // Diagonals that ran off the edges and need no more work
+  let forwardStart = 0, forwardEnd = 0, backwardStart = 0, backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < backward.length && backward[other] !== -1 && x >= n - backward[other]) return [x, y];
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1]) ? backward[index + 1] : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < forward.length && forward[other] !== -1) {
+          const forwardX = forward[other];
+          if (forwardX >= n - x) return [forwardX, offset + forwardX - other];
+        }
+      }
+    }
+  }
+  return null;
+};
+
+// Marks removed[i] / added[j] for every line outside the longest common subsequence
+const markChanges = (a: Int32Array, b: Int32Array, removed: Uint8Array, added: Uint8Array) => {
+  // Ranges still to compare; a stack rather than recursion, so deep splits cannot overflow
+  const ranges: [number, number, number, number][] = [[0, a.length, 0, b.length]];
+  while (ranges.length > 0) {
+    let [aLo, aHi, bLo, bHi] = ranges.pop()!;
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      aLo++;
+      bLo++;
+    }
+    while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+      aHi--;
+      bHi--;
+    }
+    if (aLo === aHi || bLo === bHi) {
+      removed.fill(1, aLo, aHi);
+      added.fill(1, bLo, bHi);
+      continue;
+    }
+
+    const split = findMiddleSnake(a, aLo, aHi, b, bLo, bHi);
+    if (!split) {
+      removed.fill(1, aLo, aHi);
+      added.fill(1, bLo, bHi);
+      continue;
+    }
+    const [x, y] = split;
+    ranges.push([aLo + x, aHi, bLo + y, bHi], [aLo, aLo + x, bLo, bLo + y]);
+  }
+};
+
+// Line diff of two texts; within each run of changes, deletions come before additions
+export const generateDiff = (oldStr: string, newStr: string, options: DiffOptions = {}): DiffLine[] => {
+  const oldLines = oldStr.split('\n');
+  const newLines = newStr.split('\n');
+
+  if (oldStr.length === 0) {
+    return newLines.map(line => ({ type: 'add' as const, content: line }));
+  }
+
+  // Lines become numbers so comparisons are cheap; equal (normalized) lines share one
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+    const key = normalizeLine(line, options);
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    return id;
+  });
+  const a = toIds(oldLines);
+  const b = toIds(newLines);
+  const removed = new Uint8Array(a.length);
+  const added = new Uint8Array(b.length);
+  markChanges(a, b, removed, added);
+
+  const diff: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && (removed[i] || j >= newLines.length)) {
+      diff.push({ type: 'del', content: oldLines[i++] });
+    } else if (j < newLines.length && (added[j] || i >= oldLines.length)) {
+      diff.push({ type: 'add', content: newLines[j++] });
+    } else {
+      const line: DiffLine = { type: 'common', content: newLines[j] };
+      if (oldLines[i] !== newLines[j]) line.oldContent = oldLines[i];
+      diff.push(line);
+      i++;
+      j++;
+    }
+  }
+  return diff;
+};
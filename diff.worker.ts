@@ -0,0 +1,14 @@
+// Computes diffs off the main thread; see hooks/useDiff.ts
+import { generateDiff, DiffOptions } from './diff';
+
+interface DiffRequest {
+  id: number;
+  oldStr: string;
+  newStr: string;
+  options: DiffOptions;
+}
+
+self.onmessage = (event: MessageEvent<DiffRequest>) => {
+  const { id, oldStr, newStr, options } = event.data;
+  (self as unknown as Worker).postMessage({ id, diff: generateDiff(oldStr, newStr, options) });
+};
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { generateDiff, DiffLine, DiffOptions } from '../diff';
+
+export interface DiffPair {
+    oldStr: string;
+    newStr: string;
+}
+
+// Diffs this small (lines on both sides) are computed right away rather than in the worker,
+// which would only add a frame of "computing" for no gain
+const SYNC_DIFF_LINES = 2000;
+const CACHE_SIZE = 200;
+
+// Shared worker and result cache
+const cache = new Map<string, DiffLine[]>();
+const inFlight = new Map<string, Promise<DiffLine[]>>();
+const pending = new Map<number, (diff: DiffLine[]) => void>();
+let worker: Worker | null = null;
+let nextRequestId = 0;
+
+// Helper functions
+const cacheKey = ({ oldStr, newStr }: DiffPair, options: DiffOptions) =>
+    `${options.ignoreWhitespace ? 'w' : ''}${options.ignoreLineEndings ? 'e' : ''}\u0000${oldStr}\u0000${newStr}`;
+
+const remember = (key: string, diff: DiffLine[]) => {
+    if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    cache.set(key, diff);
+    return diff;
+};
+
+const countLines = (text: string) => {
+    let lines = 1;
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) lines++;
+    return lines;
+};
+
+// The finished diff, computing small or unchanged ones on the spot; undefined while a large one is pending
+const getReadyDiff = (pair: DiffPair, options: DiffOptions): DiffLine[] | undefined => {
+    const key = cacheKey(pair, options);
+    const cached = cache.get(key);
+    if (cached) return cached;
+    if (typeof Worker === 'undefined' || pair.oldStr === pair.newStr || countLines(pair.oldStr) + countLines(pair.newStr) <= SYNC_DIFF_LINES) {
+        return remember(key, generateDiff(pair.oldStr, pair.newStr, options));
+    }
+    return undefined;
+};
+
+const getWorker = () => {
+    if (!worker) {
+        worker = new Worker(new URL('../diff.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<{ id: number; diff: DiffLine[] }>) => {
+            pending.get(event.data.id)?.(event.data.diff);
+            pending.delete(event.data.id);
+        };
+    }
+    return worker;
+};
+
+// One worker request per distinct pair, however many components ask for it
+const requestDiff = (pair: DiffPair, options: DiffOptions) => {
+    const key = cacheKey(pair, options);
+    let request = inFlight.get(key);
+    if (!request) {
+        request = new Promise<DiffLine[]>(resolve => {
+            const id = nextRequestId++;
+            pending.set(id, diff => {
+                inFlight.delete(key);
+                resolve(remember(key, diff));
+            });
+            getWorker().postMessage({ id, ...pair, options });
+        });
+        inFlight.set(key, request);
+    }
+    return request;
+};
+
+// Diffs of several pairs; an entry is null while the worker computes it
+export const useDiffs = (pairs: DiffPair[], options: DiffOptions = {}): (DiffLine[] | null)[] => {
+    // Bumped when a diff from the worker lands in the cache
+    const [, setVersion] = useState(0);
+    const results = pairs.map(pair => getReadyDiff(pair, options) ?? null);
+    const missing = pairs.filter((_, i) => results[i] === null);
+    const missingKey = missing.map(pair => cacheKey(pair, options)).join('\u0001');
+
+    useEffect(() => {
+        if (missing.length === 0) return;
+        let cancelled = false;
+        missing.forEach(pair => requestDiff(pair, options).then(() => {
+            if (!cancelled) setVersion(v => v + 1);
+        }));
+        return () => {
+            cancelled = true;
+        };
+    }, [missingKey]);
+
+    return results;
+};
+
+// Diff of two texts; null while the worker computes it
+export const useDiff = (oldStr: string, newStr: string, options: DiffOptions = {}) =>
+    useDiffs([{ oldStr, newStr }], options)[0];
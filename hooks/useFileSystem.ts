@@ -1,6 +1,7 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { FileSystemNode, File, Folder } from '../types';
 import { initialFileSystem } from '../data';
+import { resetSearchIndex, updateSearchIndex, indexNodes, removeFromSearchIndex, querySearchIndex } from './useSearchIndex';
 
 // Helper functions
 const findNodeRecursive = (nodes: FileSystemNode[], id: string): FileSystemNode | null => {
@@ -19,7 +20,7 @@ const findFileByIdRecursive = (nodes: FileSystemNode[], id: string): File | null
     return node?.type === 'file' ? node : null;
 };
 
-const updateNodeInTree = (nodes: FileSystemNode[], nodeId: string, updateFn: (node: FileSystemNode) => FileSystemNode): FileSystemNode[] => {
+export const updateNodeInTree = (nodes: FileSystemNode[], nodeId: string, updateFn: (node: FileSystemNode) => FileSystemNode): FileSystemNode[] => {
     return nodes.map(node => {
         if (node.id === nodeId) {
             return updateFn(node);
@@ -31,7 +32,7 @@ const updateNodeInTree = (nodes: FileSystemNode[], nodeId: string, updateFn: (no
     });
 };
 
-const addNodeToFolder = (nodes: FileSystemNode[], parentId: string, newNode: FileSystemNode): FileSystemNode[] => {
+export const addNodeToFolder = (nodes: FileSystemNode[], parentId: string, newNode: FileSystemNode): FileSystemNode[] => {
     return nodes.map(node => {
         if (node.id === parentId && node.type === 'folder') {
             return { ...node, children: [...node.children, newNode] };
@@ -43,7 +44,78 @@ const addNodeToFolder = (nodes: FileSystemNode[], parentId: string, newNode: Fil
     });
 };
 
-const validateFileName = (name: string): boolean => {
+// Returns the id of the folder containing `id`: null at the root, undefined if not found
+const findParentId = (nodes: FileSystemNode[], id: string, parentId: string | null = null): string | null | undefined => {
+    for (const node of nodes) {
+        if (node.id === id) return parentId;
+        if (node.type === 'folder') {
+            const found = findParentId(node.children, id, node.id);
+            if (found !== undefined) return found;
+        }
+    }
+    return undefined;
+};
+
+export const removeNodeFromTree = (nodes: FileSystemNode[], nodeId: string): FileSystemNode[] => {
+    return nodes.filter(n => n.id !== nodeId).map(n => n.type === 'folder'
+        ? { ...n, children: removeNodeFromTree(n.children, nodeId) }
+        : n);
+};
+
+// Copies the given working files into `head`, creating the folders they live in,
+// so a commit only picks up staged files and leaves everything else at HEAD.
+// Ids missing from `working` are deleted from `head`.
+export const applyFilesToTree = (head: FileSystemNode[], working: FileSystemNode[], fileIds: Set<string>): FileSystemNode[] => {
+    let tree = head;
+
+    const ensureFolder = (folderId: string | null) => {
+        if (folderId === null || findNodeRecursive(tree, folderId)) return;
+        const folder = findNodeRecursive(working, folderId) as Folder;
+        const parentId = findParentId(working, folderId) ?? null;
+        ensureFolder(parentId);
+        const copy: Folder = { id: folder.id, type: 'folder', name: folder.name, children: [] };
+        tree = parentId ? addNodeToFolder(tree, parentId, copy) : [...tree, copy];
+    };
+
+    fileIds.forEach(fileId => {
+        const file = findFileByIdRecursive(working, fileId);
+        if (!file) {
+            tree = removeNodeFromTree(tree, fileId);
+            return;
+        }
+
+        const committed: File = { ...file, gitStatus: null, isDirty: false };
+        const parentId = findParentId(working, fileId) ?? null;
+        if (findNodeRecursive(tree, fileId) && findParentId(tree, fileId) === parentId) {
+            tree = updateNodeInTree(tree, fileId, () => committed);
+            return;
+        }
+
+        // New or moved file
+        tree = removeNodeFromTree(tree, fileId);
+        ensureFolder(parentId);
+        tree = parentId ? addNodeToFolder(tree, parentId, committed) : [...tree, committed];
+    });
+
+    return tree;
+};
+
+// Ids are timestamps; bump past the last one so nodes created in the same
+// millisecond (e.g. `touch a b c` from the terminal) never collide
+let lastGeneratedId = 0;
+export const generateId = (): string => {
+    lastGeneratedId = Math.max(Date.now(), lastGeneratedId + 1);
+    return String(lastGeneratedId);
+};
+
+const cloneWithNewIds = (node: FileSystemNode, name: string = node.name): FileSystemNode => {
+    if (node.type === 'file') {
+        return { ...node, id: generateId(), name, gitStatus: 'A', isDirty: true };
+    }
+    return { ...node, id: generateId(), name, children: node.children.map(child => cloneWithNewIds(child)) };
+};
+
+export const validateFileName = (name: string): boolean => {
     if (!name.trim()) return false;
     if (name.includes('/') || name.includes('\\')) return false;
     if (name === '.' || name === '..') return false;
@@ -61,6 +133,16 @@ export const useFileSystem = () => {
         return saved ? JSON.parse(saved) : JSON.parse(JSON.stringify(initialFileSystem));
     });
 
+    // The tree after the latest change, ahead of the next render. Every change goes through
+    // updateFileSystem and every lookup reads this, so several changes made in one go (a
+    // terminal command line) each see the ones before them.
+    const fileSystemRef = useRef(fileSystem);
+    const updateFileSystem = useCallback((update: (prev: FileSystemNode[]) => FileSystemNode[]) => {
+        fileSystemRef.current = update(fileSystemRef.current);
+        setFileSystem(fileSystemRef.current);
+    }, []);
+    const getFileSystem = useCallback(() => fileSystemRef.current, []);
+
     // Persist to localStorage whenever fileSystem changes
     useEffect(() => {
         localStorage.setItem('nexus-code-filesystem', JSON.stringify(fileSystem));
@@ -71,6 +153,11 @@ export const useFileSystem = () => {
         localStorage.setItem('nexus-code-filesystem-saved', JSON.stringify(savedFileSystem));
     }, [savedFileSystem]);
 
+    // The search index is built once here and then kept up to date by each change below
+    useEffect(() => {
+        resetSearchIndex(fileSystem);
+    }, []);
+
     const handleCodeChange = useCallback((fileId: string, newContent: string) => {
         const updater = (node: FileSystemNode): FileSystemNode => {
             if (node.id === fileId && node.type === 'file') {
@@ -84,22 +171,15 @@ export const useFileSystem = () => {
             return node;
         };
         
-        setFileSystem(prev => updateNodeInTree(prev, fileId, updater));
+        updateFileSystem(prev => updateNodeInTree(prev, fileId, updater));
+        updateSearchIndex([{ id: fileId, content: newContent }]);
     }, []);
 
+    // Saving only marks the buffer clean; savedFileSystem is HEAD and moves on commit
     const handleSaveFile = useCallback((fileId: string) => {
-        const fileToSave = findFileByIdRecursive(fileSystem, fileId);
+        const fileToSave = findFileByIdRecursive(fileSystemRef.current, fileId);
         if (!fileToSave || !fileToSave.isDirty) return false;
 
-        const savedStateUpdater = (node: FileSystemNode): FileSystemNode => {
-            if (node.id === fileId && node.type === 'file') {
-                return { ...node, content: fileToSave.content };
-            }
-            return node;
-        };
-        
-        setSavedFileSystem(prev => updateNodeInTree(prev, fileId, savedStateUpdater));
-
         const workingStateUpdater = (node: FileSystemNode): FileSystemNode => {
             if (node.id === fileId && node.type === 'file') {
                 return { ...node, isDirty: false };
@@ -107,9 +187,9 @@ export const useFileSystem = () => {
             return node;
         };
         
-        setFileSystem(prev => updateNodeInTree(prev, fileId, workingStateUpdater));
+        updateFileSystem(prev => updateNodeInTree(prev, fileId, workingStateUpdater));
         return true;
-    }, [fileSystem]);
+    }, []);
 
     const handleNewItem = useCallback((parentId: string | null, type: 'file' | 'folder', name?: string) => {
         // Si no se proporciona un nombre, retornamos null para que el componente padre
@@ -124,7 +204,7 @@ export const useFileSystem = () => {
 
         const newNode: FileSystemNode = type === 'file'
             ? {
-                id: String(Date.now()),
+                id: generateId(),
                 type: 'file',
                 name: name,
                 language: name.split('.').pop() as any || 'typescript',
@@ -133,17 +213,18 @@ export const useFileSystem = () => {
                 isDirty: true,
             }
             : {
-                id: String(Date.now()),
+                id: generateId(),
                 type: 'folder',
                 name: name,
                 children: [],
             };
 
         if (parentId) {
-            setFileSystem(prev => addNodeToFolder(prev, parentId, newNode));
+            updateFileSystem(prev => addNodeToFolder(prev, parentId, newNode));
         } else {
-            setFileSystem(prev => [newNode, ...prev]);
+            updateFileSystem(prev => [newNode, ...prev]);
         }
+        indexNodes([newNode]);
 
         return newNode;
     }, []);
@@ -165,28 +246,26 @@ export const useFileSystem = () => {
             };
         };
 
-        setFileSystem(prev => updateNodeInTree(prev, nodeId, updater));
+        updateFileSystem(prev => updateNodeInTree(prev, nodeId, updater));
+        if (findNodeRecursive(fileSystemRef.current, nodeId)?.type === 'file') updateSearchIndex([{ id: nodeId, name: newName }]);
         return true;
     }, []);
 
-    const handleDeleteNode = useCallback((nodeId: string) => {
-        if (!window.confirm("Are you sure you want to delete this? This action cannot be undone.")) return false;
+    const handleDeleteNode = useCallback((nodeId: string, confirmDelete: boolean = true) => {
+        if (confirmDelete && !window.confirm("Are you sure you want to delete this? This action cannot be undone.")) return false;
+
+        // Collect ids up front: the state updater below may run after we return
+        const deletedFileIds: string[] = [];
+        const collectIds = (n: FileSystemNode) => {
+            if (n.type === 'file') deletedFileIds.push(n.id);
+            else n.children.forEach(collectIds);
+        };
+        const target = findNodeRecursive(fileSystemRef.current, nodeId);
+        if (target) collectIds(target);
 
-        let deletedFileIds: string[] = [];
         const deleteRecursive = (nodes: FileSystemNode[], idToDelete: string): FileSystemNode[] => {
             return nodes.filter(node => {
                 if (node.id === idToDelete) {
-                    if (node.type === 'file') {
-                        deletedFileIds.push(node.id);
-                    } else { 
-                        const collectIds = (n: Folder) => {
-                           n.children.forEach(child => {
-                               if (child.type === 'file') deletedFileIds.push(child.id);
-                               else collectIds(child);
-                           });
-                        };
-                        collectIds(node as Folder);
-                    }
                     return false;
                 }
                 if (node.type === 'folder') {
@@ -196,28 +275,18 @@ export const useFileSystem = () => {
             });
         };
 
-        setFileSystem(prev => deleteRecursive(JSON.parse(JSON.stringify(prev)), nodeId));
+        updateFileSystem(prev => deleteRecursive(JSON.parse(JSON.stringify(prev)), nodeId));
+        removeFromSearchIndex(deletedFileIds);
         return deletedFileIds;
     }, []);
 
-    const duplicateNode = useCallback((nodeId: string) => {
-        const node = findNodeRecursive(fileSystem, nodeId);
+    // Copies a node (folders deeply, with fresh ids). By default the copy lands next to
+    // the original as "name (copy)"; the terminal's `cp` passes an explicit target and name.
+    const duplicateNode = useCallback((nodeId: string, targetParentId?: string | null, newName?: string) => {
+        const node = findNodeRecursive(fileSystemRef.current, nodeId);
         if (!node) return null;
 
-        const newNode: FileSystemNode = node.type === 'file'
-            ? {
-                ...node,
-                id: String(Date.now()),
-                name: `${node.name} (copy)`,
-                gitStatus: 'A',
-                isDirty: true,
-            } as File
-            : {
-                ...node,
-                id: String(Date.now()),
-                name: `${node.name} (copy)`,
-                children: [...(node as Folder).children],
-            } as Folder;
+        const newNode = cloneWithNewIds(node, newName ?? `${node.name} (copy)`);
 
         // Find parent folder
         const findParent = (nodes: FileSystemNode[], targetId: string): string | null => {
@@ -233,18 +302,19 @@ export const useFileSystem = () => {
             return null;
         };
 
-        const parentId = findParent(fileSystem, nodeId);
+        const parentId = targetParentId !== undefined ? targetParentId : findParent(fileSystemRef.current, nodeId);
         if (parentId) {
-            setFileSystem(prev => addNodeToFolder(prev, parentId, newNode));
+            updateFileSystem(prev => addNodeToFolder(prev, parentId, newNode));
         } else {
-            setFileSystem(prev => [newNode, ...prev]);
+            updateFileSystem(prev => [newNode, ...prev]);
         }
+        indexNodes([newNode]);
 
         return newNode;
-    }, [fileSystem]);
+    }, []);
 
     const moveNode = useCallback((nodeId: string, targetParentId: string | null) => {
-        const node = findNodeRecursive(fileSystem, nodeId);
+        const node = findNodeRecursive(fileSystemRef.current, nodeId);
         if (!node) return false;
 
         // Remove from current location
@@ -259,28 +329,30 @@ export const useFileSystem = () => {
 
         // Add to new location
         if (targetParentId) {
-            setFileSystem(prev => {
+            updateFileSystem(prev => {
                 const withoutNode = removeFromCurrent(prev, nodeId);
                 return addNodeToFolder(withoutNode, targetParentId, node);
             });
         } else {
-            setFileSystem(prev => {
+            updateFileSystem(prev => {
                 const withoutNode = removeFromCurrent(prev, nodeId);
                 return [node, ...withoutNode];
             });
         }
 
         return true;
-    }, [fileSystem]);
+    }, []);
 
-    const searchFiles = useCallback((term: string, searchInContent: boolean = false): File[] => {
+    // Only files the search index cannot rule out are scanned
+    const searchFiles = useCallback(async (term: string, searchInContent: boolean = false): Promise<File[]> => {
         if (!term) return [];
         let results: File[] = [];
         const lowerCaseTerm = term.toLowerCase();
+        const candidates = await querySearchIndex(term, false);
     
         const searchRecursive = (nodes: FileSystemNode[]) => {
             for (const node of nodes) {
-                if (node.type === 'file') {
+                if (node.type === 'file' && (!candidates || candidates.has(node.id))) {
                     const nameMatch = node.name.toLowerCase().includes(lowerCaseTerm);
                     const contentMatch = searchInContent && node.content.toLowerCase().includes(lowerCaseTerm);
                     
@@ -294,31 +366,72 @@ export const useFileSystem = () => {
             }
         };
         
-        searchRecursive(fileSystem);
+        searchRecursive(fileSystemRef.current);
         return results;
-    }, [fileSystem]);
+    }, []);
 
-    const getGitStatus = useCallback((): File[] => {
-        let results: File[] = [];
-        const traverse = (nodeList: FileSystemNode[]) => {
-            for (const node of nodeList) {
-                if (node.type === 'file' && node.gitStatus) {
-                    results.push(node);
-                } else if (node.type === 'folder') {
-                    traverse(node.children);
-                }
-            }
-        }
-        traverse(fileSystem);
-        return results;
-    }, [fileSystem]);
+    // Moves the given files into HEAD (the whole working tree when no ids are given;
+    // given ids no longer in the working tree are deleted) and returns the new HEAD tree.
+    // `contents` overrides what is committed for partially staged files.
+    const commitFiles = useCallback((fileIds?: string[], contents: Record<string, string> = {}) => {
+        const ids = fileIds ? new Set(fileIds) : null;
+        let newHead: FileSystemNode[] = ids
+            ? applyFilesToTree(savedFileSystem, fileSystemRef.current, ids)
+            : JSON.parse(JSON.stringify(fileSystemRef.current));
+        Object.entries(contents).forEach(([fileId, content]) => {
+            newHead = updateNodeInTree(newHead, fileId, node => ({ ...node, content } as File));
+        });
+
+        // Files committed only in part keep their working changes and status
+        const isCommitted = (node: File) => (!ids || ids.has(node.id)) && (contents[node.id] ?? node.content) === node.content;
+        const clearStatus = (nodes: FileSystemNode[], shouldClear: (file: File) => boolean): FileSystemNode[] => nodes.map(node => {
+            if (node.type === 'folder') return { ...node, children: clearStatus(node.children, shouldClear) };
+            return shouldClear(node) ? { ...node, gitStatus: null, isDirty: false } : node;
+        });
+
+        setSavedFileSystem(clearStatus(newHead, () => true));
+        updateFileSystem(prev => clearStatus(prev, isCommitted));
+        return newHead;
+    }, [savedFileSystem]);
+
+    // Replaces both trees, e.g. on checkout. Files in `working` that differ from
+    // `head` are flagged so the explorer and Git view show them as changes.
+    const checkoutTree = useCallback((head: FileSystemNode[], working: FileSystemNode[] = head) => {
+        const headFiles = new Map<string, File>();
+        const collect = (nodes: FileSystemNode[]) => nodes.forEach(node => {
+            if (node.type === 'file') headFiles.set(node.id, node);
+            else collect(node.children);
+        });
+        collect(head);
+
+        const flag = (nodes: FileSystemNode[]): FileSystemNode[] => nodes.map(node => {
+            if (node.type === 'folder') return { ...node, children: flag(node.children) };
+            const original = headFiles.get(node.id);
+            const gitStatus = !original ? 'A' : original.content !== node.content || original.name !== node.name ? 'M' : null;
+            return { ...node, gitStatus, isDirty: false };
+        });
+
+        setSavedFileSystem(JSON.parse(JSON.stringify(head)));
+        updateFileSystem(() => flag(JSON.parse(JSON.stringify(working))));
+        resetSearchIndex(working);
+    }, []);
 
     const resetToSaved = useCallback(() => {
-        setFileSystem(JSON.parse(JSON.stringify(savedFileSystem)));
+        updateFileSystem(() => JSON.parse(JSON.stringify(savedFileSystem)));
+        resetSearchIndex(savedFileSystem);
+    }, [savedFileSystem]);
+
+    // Brings files back with their HEAD name, location and content
+    const restoreFiles = useCallback((fileIds: string[]) => {
+        updateFileSystem(prev => applyFilesToTree(prev, savedFileSystem, new Set(fileIds)));
+        const restored = fileIds.map(fileId => findFileByIdRecursive(savedFileSystem, fileId));
+        indexNodes(restored.filter((file): file is File => file !== null));
+        removeFromSearchIndex(fileIds.filter((_, i) => !restored[i]));
     }, [savedFileSystem]);
 
     return {
         fileSystem,
+        getFileSystem,
         savedFileSystem,
         handleCodeChange,
         handleSaveFile,
@@ -328,7 +441,9 @@ export const useFileSystem = () => {
         duplicateNode,
         moveNode,
         searchFiles,
-        getGitStatus,
+        restoreFiles,
+        commitFiles,
+        checkoutTree,
         resetToSaved,
         findFileByIdRecursive,
         findNodeRecursive,
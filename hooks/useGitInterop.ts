@@ -0,0 +1,946 @@
+import { useCallback } from 'react';
+import { FileSystemNode, File, Folder, GitCommit, SupportedLanguage } from '../types';
+import { generateDiff } from '../diff';
+
+type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+interface GitObject {
+    type: GitObjectType;
+    data: Uint8Array;
+}
+
+// A repository read from disk or from a bundle, already in the app's commit model
+export interface ImportedRepository {
+    commits: GitCommit[];
+    branches: Record<string, string>;
+    currentBranch: string;
+    // True when older history was left out (IMPORT_DEPTH or bundle prerequisites)
+    truncated: boolean;
+    // Paths of binary files, symlinks and submodules, which the editor cannot hold
+    skipped: string[];
+    // Branches whose tip is older than the imported window, and so were not created
+    droppedBranches: string[];
+}
+
+// Newest commits kept on import; every commit is a full snapshot stored in localStorage
+const IMPORT_DEPTH = 100;
+
+const PACK_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Helper functions
+const concatBytes = (chunks: Uint8Array[]) => {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+
+const sha1 = (data: Uint8Array): string => {
+    const words = new Uint32Array(((data.length + 8) >> 6) * 16 + 16);
+    for (let i = 0; i < data.length; i++) words[i >> 2] |= data[i] << (24 - (i % 4) * 8);
+    words[data.length >> 2] |= 0x80 << (24 - (data.length % 4) * 8);
+    words[words.length - 2] = Math.floor(data.length / 0x20000000);
+    words[words.length - 1] = (data.length * 8) >>> 0;
+
+    const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+    const w = new Uint32Array(80);
+    for (let block = 0; block < words.length; block += 16) {
+        for (let t = 0; t < 80; t++) {
+            if (t < 16) {
+                w[t] = words[block + t];
+            } else {
+                const x = w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16];
+                w[t] = (x << 1) | (x >>> 31);
+            }
+        }
+        let [a, b, c, d, e] = h;
+        for (let t = 0; t < 80; t++) {
+            const f = t < 20 ? (b & c) | (~b & d) : t < 40 || t >= 60 ? b ^ c ^ d : (b & c) | (b & d) | (c & d);
+            const k = t < 20 ? 0x5a827999 : t < 40 ? 0x6ed9eba1 : t < 60 ? 0x8f1bbcdc : 0xca62c1d6;
+            const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[t]) >>> 0;
+            e = d;
+            d = c;
+            c = (b << 30) | (b >>> 2);
+            b = a;
+            a = temp;
+        }
+        h[0] = (h[0] + a) >>> 0;
+        h[1] = (h[1] + b) >>> 0;
+        h[2] = (h[2] + c) >>> 0;
+        h[3] = (h[3] + d) >>> 0;
+        h[4] = (h[4] + e) >>> 0;
+    }
+    return h.map(word => word.toString(16).padStart(8, '0')).join('');
+};
+
+const adler32 = (data: Uint8Array) => {
+    let a = 1, b = 0;
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+// --- zlib ---
+// Pack entries are zlib streams laid end to end with no length prefix, so inflating
+// has to report where each stream ends; the browser's DecompressionStream cannot.
+
+interface Huffman {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+    const counts = new Uint16Array(16);
+    const symbols = new Uint16Array(lengths.length);
+    for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+    counts[0] = 0;
+
+    const offsets = new Uint16Array(16);
+    for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+    for (let i = 0; i < lengths.length; i++) {
+        if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+    }
+    return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DISTANCES = buildHuffman(Array(30).fill(5));
+
+// Inflates the zlib stream starting at data[start]; `end` is the offset just past it
+const inflate = (data: Uint8Array, start: number, sizeHint = 0): { data: Uint8Array; end: number } => {
+    if ((data[start] & 0x0f) !== 8 || ((data[start] << 8) | data[start + 1]) % 31 !== 0) {
+        throw new Error('Corrupt zlib stream');
+    }
+    let pos = start + 2;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let output = new Uint8Array(Math.max(sizeHint, 1024));
+    let length = 0;
+
+    const bits = (n: number) => {
+        while (bitCount < n) {
+            if (pos >= data.length) throw new Error('Truncated zlib stream');
+            bitBuffer |= data[pos++] << bitCount;
+            bitCount += 8;
+        }
+        const value = bitBuffer & ((1 << n) - 1);
+        bitBuffer >>>= n;
+        bitCount -= n;
+        return value;
+    };
+
+    const decode = (huffman: Huffman) => {
+        let code = 0, first = 0, index = 0;
+        for (let len = 1; len < 16; len++) {
+            code |= bits(1);
+            const count = huffman.counts[len];
+            if (code - count < first) return huffman.symbols[index + code - first];
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+        throw new Error('Corrupt zlib stream');
+    };
+
+    const reserve = (extra: number) => {
+        if (length + extra <= output.length) return;
+        const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+        grown.set(output.subarray(0, length));
+        output = grown;
+    };
+
+    let final = 0;
+    while (!final) {
+        final = bits(1);
+        const type = bits(2);
+
+        if (type === 0) {
+            bitBuffer = 0;
+            bitCount = 0;
+            const size = data[pos] | (data[pos + 1] << 8);
+            pos += 4;
+            reserve(size);
+            output.set(data.subarray(pos, pos + size), length);
+            length += size;
+            pos += size;
+            continue;
+        }
+
+        let literals = FIXED_LITERALS;
+        let distances = FIXED_DISTANCES;
+        if (type === 2) {
+            const literalCount = bits(5) + 257;
+            const distanceCount = bits(5) + 1;
+            const codeLengthCount = bits(4) + 4;
+            const codeLengths = new Uint8Array(19);
+            for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+            const codeLengthHuffman = buildHuffman(codeLengths);
+
+            const lengths = new Uint8Array(literalCount + distanceCount);
+            for (let i = 0; i < lengths.length;) {
+                const symbol = decode(codeLengthHuffman);
+                if (symbol < 16) {
+                    lengths[i++] = symbol;
+                } else {
+                    const repeat = symbol === 16 ? 3 + bits(2) : symbol === 17 ? 3 + bits(3) : 11 + bits(7);
+                    const value = symbol === 16 ? lengths[i - 1] : 0;
+                    lengths.fill(value, i, i + repeat);
+                    i += repeat;
+                }
+            }
+            literals = buildHuffman(lengths.subarray(0, literalCount));
+            distances = buildHuffman(lengths.subarray(literalCount));
+        } else if (type !== 1) {
+            throw new Error('Corrupt zlib stream');
+        }
+
+        for (;;) {
+            const symbol = decode(literals);
+            if (symbol === 256) break;
+            if (symbol < 256) {
+                reserve(1);
+                output[length++] = symbol;
+                continue;
+            }
+            const lengthCode = symbol - 257;
+            const copyLength = LENGTH_BASE[lengthCode] + bits(LENGTH_EXTRA[lengthCode]);
+            const distanceCode = decode(distances);
+            const distance = DISTANCE_BASE[distanceCode] + bits(DISTANCE_EXTRA[distanceCode]);
+            reserve(copyLength);
+            for (let i = 0; i < copyLength; i++, length++) output[length] = output[length - distance];
+        }
+    }
+
+    // Skip the Adler-32 trailer
+    return { data: output.slice(0, length), end: pos + 4 };
+};
+
+// zlib stream made of stored (uncompressed) blocks: valid for git, and simple
+const deflateStored = (data: Uint8Array) => {
+    const chunks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+    let offset = 0;
+    do {
+        const size = Math.min(0xffff, data.length - offset);
+        const final = offset + size >= data.length ? 1 : 0;
+        chunks.push(new Uint8Array([final, size & 0xff, size >> 8, ~size & 0xff, (~size >> 8) & 0xff]));
+        chunks.push(data.subarray(offset, offset + size));
+        offset += size;
+    } while (offset < data.length);
+
+    const checksum = adler32(data);
+    chunks.push(new Uint8Array([checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff]));
+    return concatBytes(chunks);
+};
+
+// --- Reading ---
+
+const hashObject = ({ type, data }: GitObject) => sha1(concatBytes([encoder.encode(`${type} ${data.length}\0`), data]));
+
+const parseLooseObject = (bytes: Uint8Array): GitObject => {
+    const { data } = inflate(bytes, 0);
+    const space = data.indexOf(0x20);
+    const nul = data.indexOf(0);
+    return { type: decoder.decode(data.subarray(0, space)) as GitObjectType, data: data.slice(nul + 1) };
+};
+
+const applyDelta = (base: Uint8Array, delta: Uint8Array) => {
+    let pos = 0;
+    const readSize = () => {
+        let size = 0, shift = 0, byte;
+        do {
+            byte = delta[pos++];
+            size += (byte & 0x7f) * 2 ** shift;
+            shift += 7;
+        } while (byte & 0x80);
+        return size;
+    };
+    if (readSize() !== base.length) throw new Error('Delta does not match its base object');
+
+    const result = new Uint8Array(readSize());
+    let length = 0;
+    while (pos < delta.length) {
+        const op = delta[pos++];
+        if (op & 0x80) {
+            let offset = 0, size = 0;
+            for (let i = 0; i < 4; i++) if (op & (1 << i)) offset |= delta[pos++] << (8 * i);
+            for (let i = 0; i < 3; i++) if (op & (1 << (4 + i))) size |= delta[pos++] << (8 * i);
+            size ||= 0x10000;
+            result.set(base.subarray(offset >>> 0, (offset >>> 0) + size), length);
+            length += size;
+        } else if (op) {
+            result.set(delta.subarray(pos, pos + op), length);
+            length += op;
+            pos += op;
+        } else {
+            throw new Error('Corrupt delta');
+        }
+    }
+    return result;
+};
+
+// Reads every object of a packfile, resolving both kinds of deltas
+const readPack = (pack: Uint8Array, objects: Map<string, GitObject>) => {
+    if (decoder.decode(pack.subarray(0, 4)) !== 'PACK') throw new Error('Not a git packfile');
+    const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+    const count = view.getUint32(8);
+
+    const byOffset = new Map<number, GitObject>();
+    const pending: { offset: number; base: string; delta: Uint8Array }[] = [];
+    let pos = 12;
+    for (let n = 0; n < count; n++) {
+        const offset = pos;
+        let byte = pack[pos++];
+        const type = (byte >> 4) & 7;
+        let size = byte & 0x0f;
+        let shift = 4;
+        while (byte & 0x80) {
+            byte = pack[pos++];
+            size += (byte & 0x7f) * 2 ** shift;
+            shift += 7;
+        }
+
+        let baseOffset = -1;
+        let baseId = '';
+        if (type === OFS_DELTA) {
+            byte = pack[pos++];
+            let distance = byte & 0x7f;
+            while (byte & 0x80) {
+                byte = pack[pos++];
+                distance = (distance + 1) * 128 + (byte & 0x7f);
+            }
+            baseOffset = offset - distance;
+        } else if (type === REF_DELTA) {
+            baseId = toHex(pack.subarray(pos, pos + 20));
+            pos += 20;
+        }
+
+        const { data, end } = inflate(pack, pos, size);
+        pos = end;
+
+        let object: GitObject | undefined;
+        if (type === OFS_DELTA) {
+            const base = byOffset.get(baseOffset);
+            if (!base) throw new Error('Delta base missing from packfile');
+            object = { type: base.type, data: applyDelta(base.data, data) };
+        } else if (type === REF_DELTA) {
+            const base = objects.get(baseId);
+            if (base) object = { type: base.type, data: applyDelta(base.data, data) };
+            else pending.push({ offset, base: baseId, delta: data });
+        } else if (PACK_TYPES[type]) {
+            object = { type: PACK_TYPES[type], data };
+        } else {
+            throw new Error(`Unknown packfile object type ${type}`);
+        }
+
+        if (object) {
+            byOffset.set(offset, object);
+            objects.set(hashObject(object), object);
+        }
+    }
+
+    // Deltas against objects that appeared later in the pack
+    let progress = true;
+    while (pending.length > 0 && progress) {
+        progress = false;
+        for (let i = pending.length - 1; i >= 0; i--) {
+            const base = objects.get(pending[i].base);
+            if (!base) continue;
+            const object = { type: base.type, data: applyDelta(base.data, pending[i].delta) };
+            objects.set(hashObject(object), object);
+            pending.splice(i, 1);
+            progress = true;
+        }
+    }
+};
+
+interface ParsedCommit {
+    tree: string;
+    parents: string[];
+    author: string;
+    timestamp: number;
+    committedAt: number;
+    message: string;
+}
+
+const parseCommit = (data: Uint8Array): ParsedCommit => {
+    const text = decoder.decode(data);
+    const split = text.indexOf('\n\n');
+    const headers = (split === -1 ? text : text.slice(0, split)).split('\n');
+    const commit: ParsedCommit = { tree: '', parents: [], author: '', timestamp: 0, committedAt: 0, message: '' };
+
+    for (const header of headers) {
+        const [key, ...rest] = header.split(' ');
+        const value = rest.join(' ');
+        if (key === 'tree') commit.tree = value;
+        else if (key === 'parent') commit.parents.push(value);
+        else if (key === 'author' || key === 'committer') {
+            // "Name <email> 1700000000 +0100"
+            const match = value.match(/^(.*>) (\d+) [+-]\d{4}$/);
+            if (!match) continue;
+            if (key === 'author') {
+                commit.author = match[1];
+                commit.timestamp = Number(match[2]) * 1000;
+            } else {
+                commit.committedAt = Number(match[2]) * 1000;
+            }
+        }
+    }
+    commit.message = split === -1 ? '' : text.slice(split + 2).replace(/\n+$/, '');
+    return commit;
+};
+
+const parseTree = (data: Uint8Array) => {
+    const entries: { mode: string; name: string; id: string }[] = [];
+    let pos = 0;
+    while (pos < data.length) {
+        const space = data.indexOf(0x20, pos);
+        const nul = data.indexOf(0, space);
+        entries.push({
+            mode: decoder.decode(data.subarray(pos, space)),
+            name: decoder.decode(data.subarray(space + 1, nul)),
+            id: toHex(data.subarray(nul + 1, nul + 21)),
+        });
+        pos = nul + 21;
+    }
+    return entries;
+};
+
+const LANGUAGES: Record<string, SupportedLanguage> = {
+    html: 'html', htm: 'html',
+    css: 'css',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    ts: 'typescript', tsx: 'typescript',
+    json: 'json',
+    md: 'markdown',
+};
+
+// Files the editor has no highlighter for are shown as plain markdown text
+export const languageForName = (name: string): SupportedLanguage => LANGUAGES[name.split('.').pop()!.toLowerCase()] ?? 'markdown';
+
+const readRefs = (lines: string[], refs: Map<string, string>) => {
+    for (const line of lines) {
+        const match = line.match(/^([0-9a-f]{40}) (\S+)$/);
+        if (match) refs.set(match[2], match[1]);
+    }
+};
+
+// Turns the commits reachable from `refs` into snapshots. Files get stable ids from
+// their paths, so the same file keeps its id (and its history) across commits.
+const buildRepository = (objects: Map<string, GitObject>, refs: Map<string, string>, headRef: string | null, headId: string | undefined): ImportedRepository => {
+    const read = (id: string, type: GitObjectType) => {
+        const object = objects.get(id);
+        if (!object || object.type !== type) throw new Error(`Missing ${type} ${id}`);
+        return object.data;
+    };
+
+    // Annotated tags and remote refs are not branches; only refs/heads become branches
+    const tips = new Map<string, string>();
+    refs.forEach((id, ref) => {
+        if (ref.startsWith('refs/heads/') && objects.get(id)?.type === 'commit') tips.set(ref.slice('refs/heads/'.length), id);
+    });
+    if (headId && objects.get(headId)?.type === 'commit' && !headRef) {
+        // Detached HEAD: keep it as a branch so it can be checked out
+        tips.set([...tips.entries()].find(([, id]) => id === headId)?.[0] ?? 'detached', headId);
+    }
+    if (tips.size === 0) throw new Error('The repository has no commits');
+
+    const parsed = new Map<string, ParsedCommit>();
+    const queue = [...tips.values()];
+    let truncated = false;
+    while (queue.length > 0) {
+        const id = queue.pop()!;
+        if (parsed.has(id)) continue;
+        if (!objects.has(id)) {
+            truncated = true;
+            continue;
+        }
+        const commit = parseCommit(read(id, 'commit'));
+        parsed.set(id, commit);
+        queue.push(...commit.parents);
+    }
+
+    const kept = [...parsed.entries()]
+        .sort(([, a], [, b]) => b.committedAt - a.committedAt)
+        .slice(0, IMPORT_DEPTH);
+    if (kept.length < parsed.size) truncated = true;
+    const keptIds = new Set(kept.map(([id]) => id));
+
+    const skipped = new Set<string>();
+    const blobs = new Map<string, string | null>();
+    const readBlob = (id: string) => {
+        if (!blobs.has(id)) {
+            const data = read(id, 'blob');
+            let content: string | null = null;
+            try {
+                content = data.includes(0) ? null : new TextDecoder('utf-8', { fatal: true }).decode(data);
+            } catch {
+                content = null;
+            }
+            blobs.set(id, content);
+        }
+        return blobs.get(id)!;
+    };
+
+    // Trees repeat across commits; share the converted nodes between snapshots
+    const trees = new Map<string, FileSystemNode[]>();
+    const convertTree = (id: string, path: string): FileSystemNode[] => {
+        const key = `${id}:${path}`;
+        const cached = trees.get(key);
+        if (cached) return cached;
+
+        const folders: Folder[] = [];
+        const files: File[] = [];
+        for (const entry of parseTree(read(id, 'tree'))) {
+            const entryPath = path + entry.name;
+            if (entry.mode === '40000') {
+                folders.push({ id: `git-folder:${entryPath}`, type: 'folder', name: entry.name, children: convertTree(entry.id, `${entryPath}/`) });
+                continue;
+            }
+            const content = entry.mode.startsWith('100') ? readBlob(entry.id) : null;
+            if (content === null) {
+                skipped.add(entryPath);
+                continue;
+            }
+            files.push({ id: `git-file:${entryPath}`, type: 'file', name: entry.name, language: languageForName(entry.name), content });
+        }
+        const nodes = [...folders, ...files];
+        trees.set(key, nodes);
+        return nodes;
+    };
+
+    // Parents before children, like commits recorded in the app
+    const ordered: [string, ParsedCommit][] = [];
+    const visited = new Set<string>();
+    for (const [id] of [...kept].reverse()) {
+        const stack = [id];
+        while (stack.length > 0) {
+            const current = stack[stack.length - 1];
+            const pending = parsed.get(current)!.parents.filter(parent => keptIds.has(parent) && !visited.has(parent));
+            if (visited.has(current)) {
+                stack.pop();
+            } else if (pending.length > 0) {
+                stack.push(...pending);
+            } else {
+                visited.add(current);
+                ordered.push([current, parsed.get(current)!]);
+                stack.pop();
+            }
+        }
+    }
+
+    const commits: GitCommit[] = ordered.map(([id, commit]) => {
+        const [parentId, mergeParentId] = commit.parents.filter(parent => keptIds.has(parent));
+        return {
+            id,
+            parentId: parentId ?? null,
+            ...(mergeParentId && { mergeParentId }),
+            message: commit.message,
+            author: commit.author,
+            timestamp: commit.timestamp,
+            tree: convertTree(commit.tree, ''),
+        };
+    });
+
+    // A branch whose tip fell outside the imported window is left out: its history is
+    // older than every kept commit, so there is nothing of it to point at
+    const branches: Record<string, string> = {};
+    const droppedBranches: string[] = [];
+    tips.forEach((id, name) => {
+        if (keptIds.has(id)) branches[name] = id;
+        else droppedBranches.push(name);
+    });
+    if (Object.keys(branches).length === 0) branches.main = commits[commits.length - 1].id;
+
+    const headBranch = headRef?.replace(/^refs\/heads\//, '');
+    const currentBranch = headBranch && branches[headBranch] ? headBranch
+        : Object.keys(branches).find(name => branches[name] === headId) ?? Object.keys(branches)[0];
+
+    return { commits, branches, currentBranch, truncated, skipped: [...skipped].sort(), droppedBranches: droppedBranches.sort() };
+};
+
+const BUNDLE_SIGNATURE = /^# v[23] git bundle\n/;
+
+const readBundle = (bytes: Uint8Array): ImportedRepository => {
+    // The header is text up to the first blank line; the packfile follows
+    let headerEnd = 0;
+    while (headerEnd < bytes.length - 1 && !(bytes[headerEnd] === 0x0a && bytes[headerEnd + 1] === 0x0a)) headerEnd++;
+    const lines = decoder.decode(bytes.subarray(0, headerEnd)).split('\n').slice(1);
+
+    const refs = new Map<string, string>();
+    readRefs(lines, refs);
+    const objects = new Map<string, GitObject>();
+    readPack(bytes.subarray(headerEnd + 2), objects);
+
+    const repository = buildRepository(objects, refs, null, refs.get('HEAD'));
+    return { ...repository, truncated: repository.truncated || lines.some(line => line.startsWith('-')) };
+};
+
+// Reads the .git directory inside a folder picked with <input webkitdirectory>
+const readGitDirectory = async (files: globalThis.File[]): Promise<ImportedRepository> => {
+    const byPath = new Map(files.map(file => [file.webkitRelativePath || file.name, file]));
+    const paths = [...byPath.keys()];
+
+    // The git directory is the shortest prefix holding both HEAD and objects/
+    const gitDir = paths
+        .filter(path => /(^|\/)HEAD$/.test(path))
+        .map(path => path.slice(0, -'HEAD'.length))
+        .filter(prefix => paths.some(path => path.startsWith(`${prefix}objects/`)))
+        .sort((a, b) => a.length - b.length)[0];
+    if (gitDir === undefined) throw new Error('No .git directory found in the selected folder');
+
+    const readText = async (path: string) => {
+        const file = byPath.get(gitDir + path);
+        return file ? (await file.text()).trim() : null;
+    };
+
+    const objects = new Map<string, GitObject>();
+    for (const path of paths) {
+        if (!path.startsWith(`${gitDir}objects/`)) continue;
+        const relative = path.slice(`${gitDir}objects/`.length);
+        const bytes = new Uint8Array(await byPath.get(path)!.arrayBuffer());
+        if (/^[0-9a-f]{2}\/[0-9a-f]{38}$/.test(relative)) {
+            objects.set(relative.replace('/', ''), parseLooseObject(bytes));
+        } else if (/^pack\/[^/]+\.pack$/.test(relative)) {
+            readPack(bytes, objects);
+        }
+    }
+
+    const refs = new Map<string, string>();
+    readRefs((await readText('packed-refs'))?.split('\n') ?? [], refs);
+    for (const path of paths) {
+        if (!path.startsWith(`${gitDir}refs/heads/`)) continue;
+        const id = await readText(path.slice(gitDir.length));
+        if (id) refs.set(path.slice(gitDir.length), id);
+    }
+
+    const head = await readText('HEAD');
+    const headRef = head?.startsWith('ref: ') ? head.slice(5) : null;
+    return buildRepository(objects, refs, headRef, headRef ? refs.get(headRef) : head ?? undefined);
+};
+
+// Accepts a picked folder (a working copy or the .git directory itself) or a single bundle file
+const readRepository = async (files: globalThis.File[]): Promise<ImportedRepository> => {
+    if (files.length === 1 && !files[0].webkitRelativePath) {
+        const bytes = new Uint8Array(await files[0].arrayBuffer());
+        if (!BUNDLE_SIGNATURE.test(decoder.decode(bytes.subarray(0, 20)))) {
+            throw new Error(`${files[0].name} is not a git bundle`);
+        }
+        return readBundle(bytes);
+    }
+    return readGitDirectory(files);
+};
+
+// --- Writing ---
+
+// "Name <email>" as used by imported commits; plain names get an empty email
+const splitAuthor = (author: string) => {
+    const match = author.match(/^(.*?)\s*<([^>]*)>\s*$/);
+    return match ? { name: match[1], email: match[2] } : { name: author.trim(), email: '' };
+};
+
+// Tree entries sort by name, with folders compared as if their name ended in "/"
+const treeEntryKey = (node: FileSystemNode) => node.type === 'folder' ? `${node.name}/` : node.name;
+
+// Writes every commit reachable from `tips` as git objects. Returns the objects and the
+// git id of each app commit; ids of imported commits change, as their history is rewritten.
+const writeObjects = (tips: string[], getCommit: (commitId: string) => GitCommit | null) => {
+    const objects = new Map<string, GitObject>();
+    const add = (object: GitObject) => {
+        const id = hashObject(object);
+        objects.set(id, object);
+        return id;
+    };
+
+    const writeTree = (nodes: FileSystemNode[]): string | null => {
+        const entries: Uint8Array[] = [];
+        for (const node of [...nodes].sort((a, b) => treeEntryKey(a) < treeEntryKey(b) ? -1 : 1)) {
+            const id = node.type === 'file'
+                ? add({ type: 'blob', data: encoder.encode(node.content) })
+                : writeTree(node.children);
+            // Git cannot record empty folders
+            if (!id) continue;
+            entries.push(encoder.encode(`${node.type === 'file' ? '100644' : '40000'} ${node.name}\0`), fromHex(id));
+        }
+        return entries.length === 0 ? null : add({ type: 'tree', data: concatBytes(entries) });
+    };
+
+    const ids = new Map<string, string>();
+    const writeCommit = (commitId: string): string => {
+        const existing = ids.get(commitId);
+        if (existing) return existing;
+        const commit = getCommit(commitId);
+        if (!commit) throw new Error(`Missing commit ${commitId}`);
+
+        // Parents first; history is deep, so walk it without recursion
+        const stack = [commit];
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const missing = [top.parentId, top.mergeParentId]
+                .filter((id): id is string => !!id && !ids.has(id))
+                .map(id => getCommit(id))
+                .filter((parent): parent is GitCommit => !!parent);
+            if (missing.length > 0) {
+                stack.push(...missing);
+                continue;
+            }
+            stack.pop();
+            if (ids.has(top.id)) continue;
+
+            const { name, email } = splitAuthor(top.author);
+            const signature = `${name} <${email}> ${Math.floor(top.timestamp / 1000)} +0000`;
+            const parents = [top.parentId, top.mergeParentId]
+                .filter((id): id is string => !!id && ids.has(id))
+                .map(id => `parent ${ids.get(id)}\n`);
+            const text = `tree ${writeTree(top.tree) ?? add({ type: 'tree', data: new Uint8Array() })}\n${parents.join('')}`
+                + `author ${signature}\ncommitter ${signature}\n\n${top.message}\n`;
+            ids.set(top.id, add({ type: 'commit', data: encoder.encode(text) }));
+        }
+        return ids.get(commitId)!;
+    };
+
+    tips.forEach(writeCommit);
+    return { objects, ids };
+};
+
+const writePack = (objects: Map<string, GitObject>) => {
+    const header = new Uint8Array(12);
+    header.set(encoder.encode('PACK'));
+    const view = new DataView(header.buffer);
+    view.setUint32(4, 2);
+    view.setUint32(8, objects.size);
+
+    const typeNumbers: Record<GitObjectType, number> = { commit: 1, tree: 2, blob: 3, tag: 4 };
+    const chunks = [header];
+    objects.forEach(({ type, data }) => {
+        const entryHeader: number[] = [];
+        let size = data.length;
+        let byte = (typeNumbers[type] << 4) | (size & 0x0f);
+        size = Math.floor(size / 16);
+        while (size > 0) {
+            entryHeader.push(byte | 0x80);
+            byte = size & 0x7f;
+            size = Math.floor(size / 128);
+        }
+        entryHeader.push(byte);
+        chunks.push(new Uint8Array(entryHeader), deflateStored(data));
+    });
+
+    const pack = concatBytes(chunks);
+    return concatBytes([pack, fromHex(sha1(pack))]);
+};
+
+// A v2 bundle with every branch; `git clone nexus.bundle` restores the history
+const writeBundle = (branches: Record<string, string>, currentBranch: string, getCommit: (commitId: string) => GitCommit | null) => {
+    const { objects, ids } = writeObjects(Object.values(branches), getCommit);
+    const refs = Object.entries(branches).map(([name, commitId]) => `${ids.get(commitId)} refs/heads/${name}\n`);
+    const header = `# v2 git bundle\n${refs.join('')}${ids.get(branches[currentBranch])} HEAD\n\n`;
+    return concatBytes([encoder.encode(header), writePack(objects)]);
+};
+
+// The file's lines as git sees them; a missing final newline is kept as a marker
+// so that adding or removing it shows up as a change to the last line
+export const NO_NEWLINE = '\u0000';
+export const toPatchLines = (content: string) => {
+    if (content === '') return [];
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    else lines[lines.length - 1] += NO_NEWLINE;
+    return lines;
+};
+
+const PATCH_CONTEXT = 3;
+
+// Unified diff hunks (the part after the ---/+++ headers)
+const formatUnifiedHunks = (oldContent: string, newContent: string): string[] => {
+    const oldLines = toPatchLines(oldContent);
+    const newLines = toPatchLines(newContent);
+    const diff = oldLines.length === 0 || newLines.length === 0
+        ? [...oldLines.map(content => ({ type: 'del' as const, content })), ...newLines.map(content => ({ type: 'add' as const, content }))]
+        : generateDiff(oldLines.join('\n'), newLines.join('\n'));
+
+    // Line numbers before each diff entry, to label the hunks
+    const positions: { old: number; new: number }[] = [];
+    let oldLine = 0, newLine = 0;
+    diff.forEach(line => {
+        positions.push({ old: oldLine, new: newLine });
+        if (line.type !== 'add') oldLine++;
+        if (line.type !== 'del') newLine++;
+    });
+    positions.push({ old: oldLine, new: newLine });
+
+    const ranges: { start: number; end: number }[] = [];
+    diff.forEach((line, index) => {
+        if (line.type === 'common') return;
+        const start = Math.max(0, index - PATCH_CONTEXT);
+        const end = Math.min(diff.length, index + 1 + PATCH_CONTEXT);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last.end) last.end = end;
+        else ranges.push({ start, end });
+    });
+
+    const output: string[] = [];
+    for (const { start, end } of ranges) {
+        const oldCount = positions[end].old - positions[start].old;
+        const newCount = positions[end].new - positions[start].new;
+        const oldStart = oldCount === 0 ? positions[start].old : positions[start].old + 1;
+        const newStart = newCount === 0 ? positions[start].new : positions[start].new + 1;
+        output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        for (const line of diff.slice(start, end)) {
+            const prefix = line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ';
+            if (line.content.endsWith(NO_NEWLINE)) {
+                output.push(prefix + line.content.slice(0, -1), '\\ No newline at end of file');
+            } else {
+                output.push(prefix + line.content);
+            }
+        }
+    }
+    return output;
+};
+
+const collectPaths = (nodes: FileSystemNode[], prefix = '', files = new Map<string, { path: string; content: string }>()) => {
+    for (const node of nodes) {
+        if (node.type === 'file') files.set(node.id, { path: prefix + node.name, content: node.content });
+        else collectPaths(node.children, `${prefix}${node.name}/`, files);
+    }
+    return files;
+};
+
+// `git diff` between two snapshots; files are matched by id, so moves become renames
+export const formatTreeDiff = (oldTree: FileSystemNode[], newTree: FileSystemNode[]): string => {
+    const oldFiles = collectPaths(oldTree);
+    const newFiles = collectPaths(newTree);
+    const sections: string[] = [];
+
+    const ids = new Set([...oldFiles.keys(), ...newFiles.keys()]);
+    const ordered = [...ids].sort((a, b) => {
+        const pathA = (newFiles.get(a) ?? oldFiles.get(a))!.path;
+        const pathB = (newFiles.get(b) ?? oldFiles.get(b))!.path;
+        return pathA < pathB ? -1 : pathA > pathB ? 1 : 0;
+    });
+
+    for (const id of ordered) {
+        const before = oldFiles.get(id);
+        const after = newFiles.get(id);
+        if (before && after && before.path === after.path && before.content === after.content) continue;
+
+        const oldPath = (before ?? after)!.path;
+        const newPath = (after ?? before)!.path;
+        const lines = [`diff --git a/${oldPath} b/${newPath}`];
+        if (!before) lines.push('new file mode 100644');
+        if (!after) lines.push('deleted file mode 100644');
+        if (before && after && before.path !== after.path) {
+            lines.push(`rename from ${before.path}`, `rename to ${after.path}`);
+        }
+
+        const hunks = formatUnifiedHunks(before?.content ?? '', after?.content ?? '');
+        if (hunks.length > 0) {
+            lines.push(before ? `--- a/${oldPath}` : '--- /dev/null', after ? `+++ b/${newPath}` : '+++ /dev/null', ...hunks);
+        }
+        sections.push(lines.join('\n'));
+    }
+    return sections.length > 0 ? `${sections.join('\n')}\n` : '';
+};
+
+// An mbox of patches, oldest first, in the format of `git format-patch`; apply with `git am`
+const formatPatchSeries = (commits: GitCommit[], getCommit: (commitId: string) => GitCommit | null) => {
+    return commits.map((commit, n) => {
+        const parent = commit.parentId ? getCommit(commit.parentId) : null;
+        const { name, email } = splitAuthor(commit.author);
+        const [subject, ...body] = commit.message.split('\n');
+        const number = commits.length > 1 ? `[PATCH ${n + 1}/${commits.length}]` : '[PATCH]';
+        const date = new Date(commit.timestamp).toUTCString().replace('GMT', '+0000');
+
+        return [
+            `From ${commit.id} Mon Sep 17 00:00:00 2001`,
+            `From: ${name} <${email}>`,
+            `Date: ${date}`,
+            `Subject: ${number} ${subject}`,
+            'MIME-Version: 1.0',
+            'Content-Type: text/plain; charset=UTF-8',
+            'Content-Transfer-Encoding: 8bit',
+            '',
+            ...(body.join('\n').trim() ? [body.join('\n').trim(), ''] : []),
+            '---',
+            '',
+            formatTreeDiff(parent?.tree ?? [], commit.tree) + '-- ',
+            'Nexus Code',
+            '',
+        ].join('\n');
+    }).join('\n');
+};
+
+export const downloadFile = (name: string, data: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    // Revoking right away makes Firefox and Safari cancel the download or save an empty file
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the browser's file picker: a folder (with all its files) or a single file
+export const pickFiles = (directory: boolean) => new Promise<globalThis.File[]>(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    if (directory) input.webkitdirectory = true;
+    else input.accept = '.bundle';
+    input.onchange = () => resolve(Array.from(input.files ?? []));
+    input.click();
+});
+
+interface GitInteropOptions {
+    branches: Record<string, string>;
+    currentBranch: string;
+    head: string;
+    getCommit: (commitId: string) => GitCommit | null;
+    replaceRepository: (commits: GitCommit[], branches: Record<string, string>, currentBranch: string) => FileSystemNode[] | null;
+}
+
+// Moving history between the app and real git repositories, all in the browser
+export const useGitInterop = ({ branches, currentBranch, head, getCommit, replaceRepository }: GitInteropOptions) => {
+    // Replaces the local history; returns the new HEAD tree for the caller to check out
+    const importRepository = useCallback(async (files: globalThis.File[]) => {
+        const repository = await readRepository(files);
+        const tree = replaceRepository(repository.commits, repository.branches, repository.currentBranch);
+        if (!tree) throw new Error('The repository has no commits');
+        return { repository, tree };
+    }, [replaceRepository]);
+
+    const exportBundle = useCallback((fileName: string) => {
+        downloadFile(fileName, writeBundle(branches, currentBranch, getCommit), 'application/octet-stream');
+    }, [branches, currentBranch, getCommit]);
+
+    // The last `count` commits of the current branch, following first parents;
+    // merge commits are skipped, as format-patch does
+    const exportPatchSeries = useCallback((fileName: string, count: number) => {
+        const commits: GitCommit[] = [];
+        for (let commit = getCommit(head); commit && commits.length < count; commit = commit.parentId ? getCommit(commit.parentId) : null) {
+            if (!commit.mergeParentId) commits.unshift(commit);
+        }
+        if (commits.length > 0) downloadFile(fileName, formatPatchSeries(commits, getCommit), 'text/plain');
+        return commits.length;
+    }, [head, getCommit]);
+
+    return { importRepository, exportBundle, exportPatchSeries };
+};
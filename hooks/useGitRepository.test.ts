@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { FileSystemNode, File } from '../types';
+import { mergeText, mergeTrees, hasConflictMarkers } from './useGitRepository';
+
+const file = (id: string, name: string, content: string): File => ({ id, type: 'file', name, language: 'typescript', content });
+const folder = (id: string, name: string, children: FileSystemNode[]): FileSystemNode => ({ id, type: 'folder', name, children });
+
+// Every file as "path: content"
+const listFiles = (nodes: FileSystemNode[], prefix = ''): string[] => nodes.flatMap(node => node.type === 'file'
+    ? [`${prefix}${node.name}: ${node.content}`]
+    : listFiles(node.children, `${prefix}${node.name}/`));
+
+describe('mergeText', () => {
+    const base = ['one', 'two', 'three', 'four', 'five'].join('\n');
+
+    it('merges changes to different lines', () => {
+        const ours = base.replace('one', 'ONE');
+        const theirs = base.replace('five', 'FIVE');
+        expect(mergeText(base, ours, theirs, 'main', 'feature')).toEqual({ content: 'ONE\ntwo\nthree\nfour\nFIVE', conflicts: 0 });
+    });
+
+    it('takes a change made the same way on both sides once', () => {
+        const changed = base.replace('three', 'THREE');
+        expect(mergeText(base, changed, changed, 'main', 'feature')).toEqual({ content: changed, conflicts: 0 });
+    });
+
+    it('marks overlapping changes as a conflict', () => {
+        const { content, conflicts } = mergeText(base, base.replace('three', 'ours'), base.replace('three', 'theirs'), 'main', 'feature');
+        expect(conflicts).toBe(1);
+        expect(content).toBe('one\ntwo\n<<<<<<< main\nours\n=======\ntheirs\n>>>>>>> feature\nfour\nfive');
+        expect(hasConflictMarkers(content)).toBe(true);
+    });
+
+    it('marks changes to adjacent lines as a conflict', () => {
+        const { conflicts } = mergeText(base, base.replace('two', 'TWO'), base.replace('three', 'THREE'), 'main', 'feature');
+        expect(conflicts).toBe(1);
+    });
+
+    it('merges into an empty base', () => {
+        expect(mergeText('', 'a', '', 'main', 'feature')).toEqual({ content: 'a', conflicts: 0 });
+        expect(mergeText('', 'a', 'b', 'main', 'feature').conflicts).toBe(1);
+    });
+});
+
+describe('mergeTrees', () => {
+    it('merges edits to different files and different lines', () => {
+        const base = [file('a', 'a.ts', 'one\ntwo\nthree'), file('b', 'b.ts', 'b')];
+        const ours = [file('a', 'a.ts', 'ONE\ntwo\nthree'), file('b', 'b.ts', 'b')];
+        const theirs = [file('a', 'a.ts', 'one\ntwo\nTHREE'), file('b', 'b.ts', 'B'), file('c', 'c.ts', 'new')];
+        const { tree, conflicts } = mergeTrees(base, ours, theirs, 'main', 'feature');
+        expect(conflicts).toEqual([]);
+        expect(listFiles(tree)).toEqual(['a.ts: ONE\ntwo\nTHREE', 'b.ts: B', 'c.ts: new']);
+    });
+
+    it('reports files changed on both sides in overlapping lines', () => {
+        const base = [file('a', 'a.ts', 'one')];
+        const { tree, conflicts } = mergeTrees(base, [file('a', 'a.ts', 'ours')], [file('a', 'a.ts', 'theirs')], 'main', 'feature');
+        expect(conflicts).toEqual(['a']);
+        expect(listFiles(tree)).toEqual(['a.ts: <<<<<<< main\nours\n=======\ntheirs\n>>>>>>> feature']);
+    });
+
+    it('deletes a file one side deleted and the other left alone', () => {
+        const base = [file('a', 'a.ts', 'one'), file('b', 'b.ts', 'two')];
+        expect(listFiles(mergeTrees(base, base, [file('b', 'b.ts', 'two')], 'main', 'feature').tree)).toEqual(['b.ts: two']);
+        expect(listFiles(mergeTrees(base, [file('b', 'b.ts', 'two')], base, 'main', 'feature').tree)).toEqual(['b.ts: two']);
+    });
+
+    it('keeps a file modified on one side and deleted on the other, between markers', () => {
+        const base = [file('a', 'a.ts', 'one')];
+        const theirsDeleted = mergeTrees(base, [file('a', 'a.ts', 'ours')], [], 'main', 'feature');
+        expect(theirsDeleted.conflicts).toEqual(['a']);
+        expect(listFiles(theirsDeleted.tree)).toEqual(['a.ts: <<<<<<< main\nours\n=======\n>>>>>>> feature']);
+
+        const oursDeleted = mergeTrees(base, [], [file('a', 'a.ts', 'theirs')], 'main', 'feature');
+        expect(oursDeleted.conflicts).toEqual(['a']);
+        expect(listFiles(oursDeleted.tree)).toEqual(['a.ts: <<<<<<< main\n=======\ntheirs\n>>>>>>> feature']);
+        expect(hasConflictMarkers((oursDeleted.tree[0] as File).content)).toBe(true);
+    });
+
+    it('merges a rename on one side with an edit on the other', () => {
+        const base = [file('a', 'a.ts', 'one')];
+        const { tree, conflicts } = mergeTrees(base, [file('a', 'a.ts', 'ONE')], [file('a', 'b.ts', 'one')], 'main', 'feature');
+        expect(conflicts).toEqual([]);
+        expect(listFiles(tree)).toEqual(['b.ts: ONE']);
+    });
+
+    it('keeps a file their branch only moved to another folder', () => {
+        const base = [folder('src', 'src', []), file('a', 'a.ts', 'one')];
+        const theirs = [folder('src', 'src', [file('a', 'a.ts', 'one')])];
+        const { tree, conflicts } = mergeTrees(base, base, theirs, 'main', 'feature');
+        expect(conflicts).toEqual([]);
+        expect(listFiles(tree)).toEqual(['src/a.ts: one']);
+    });
+
+    it('keeps a move into a folder only their branch created', () => {
+        const base = [file('a', 'a.ts', 'one')];
+        const ours = [file('a', 'a.ts', 'one'), file('b', 'b.ts', 'two')];
+        const theirs = [folder('lib', 'lib', [file('a', 'a.ts', 'one')])];
+        const { tree } = mergeTrees(base, ours, theirs, 'main', 'feature');
+        expect(listFiles(tree).sort()).toEqual(['b.ts: two', 'lib/a.ts: one']);
+    });
+});
@@ -0,0 +1,670 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FileSystemNode, File, GitCommit, GitFileChange, GitFileRevision, GitMergeState, GitStash } from '../types';
+import { generateDiff } from '../diff';
+import { applyFilesToTree, removeNodeFromTree, updateNodeInTree } from './useFileSystem';
+
+// Helper functions
+const collectFiles = (nodes: FileSystemNode[], files: Map<string, File> = new Map()) => {
+    for (const node of nodes) {
+        if (node.type === 'file') files.set(node.id, node);
+        else collectFiles(node.children, files);
+    }
+    return files;
+};
+
+// Commits store plain content; dirty/status flags belong to the working tree
+const snapshotTree = (nodes: FileSystemNode[]): FileSystemNode[] => nodes.map(node => node.type === 'file'
+    ? { id: node.id, type: 'file', name: node.name, language: node.language, content: node.content }
+    : { id: node.id, type: 'folder', name: node.name, children: snapshotTree(node.children) });
+
+// 40 hex chars from five FNV-1a passes with different seeds; unique enough for local history
+const hashCommit = (input: string): string => {
+    let hash = '';
+    for (const seed of [0x811c9dc5, 0x01000193, 0x5bd1e995, 0x27d4eb2f, 0x165667b1]) {
+        let h = seed;
+        for (let i = 0; i < input.length; i++) {
+            h ^= input.charCodeAt(i);
+            h = Math.imul(h, 0x01000193);
+        }
+        hash += (h >>> 0).toString(16).padStart(8, '0');
+    }
+    return hash;
+};
+
+const createCommit = (tree: FileSystemNode[], message: string, author: string, parentId: string | null, mergeParentId?: string): GitCommit => {
+    const snapshot = snapshotTree(tree);
+    const timestamp = Date.now();
+    return {
+        id: hashCommit(`${parentId}\n${mergeParentId}\n${author}\n${timestamp}\n${message}\n${JSON.stringify(snapshot)}`),
+        parentId,
+        ...(mergeParentId && { mergeParentId }),
+        message,
+        author,
+        timestamp,
+        tree: snapshot,
+    };
+};
+
+export const shortCommitId = (commitId: string) => commitId.slice(0, 7);
+
+// Every file with its path from the project root
+const collectFilePaths = (nodes: FileSystemNode[], prefix = '', files: Map<string, { file: File; path: string }> = new Map()) => {
+    for (const node of nodes) {
+        const path = prefix + node.name;
+        if (node.type === 'file') files.set(node.id, { file: node, path });
+        else collectFilePaths(node.children, `${path}/`, files);
+    }
+    return files;
+};
+
+// Status of every file between two trees. Files are matched by id anywhere in the tree,
+// so a file that changed name or folder is a rename ('R') rather than a delete plus an add.
+export const diffTrees = (oldTree: FileSystemNode[], newTree: FileSystemNode[]): GitFileChange[] => {
+    const oldFiles = collectFilePaths(oldTree);
+    const newFiles = collectFilePaths(newTree);
+    const changes: GitFileChange[] = [];
+
+    newFiles.forEach(({ file, path }, id) => {
+        const previous = oldFiles.get(id);
+        if (!previous) {
+            changes.push({ file, status: 'A', oldPath: null, path, modified: true });
+            return;
+        }
+        const modified = previous.file.content !== file.content;
+        if (previous.path !== path) {
+            changes.push({ file, status: 'R', oldPath: previous.path, path, modified });
+        } else if (modified) {
+            changes.push({ file, status: 'M', oldPath: path, path, modified });
+        }
+    });
+    oldFiles.forEach(({ file, path }, id) => {
+        if (!newFiles.has(id)) changes.push({ file, status: 'D', oldPath: path, path: null, modified: true });
+    });
+
+    return changes.sort((a, b) => (a.path ?? a.oldPath!).localeCompare(b.path ?? b.oldPath!));
+};
+
+// Keeps only the given files and the folders leading to them
+const pruneTree = (nodes: FileSystemNode[], fileIds: Set<string>): FileSystemNode[] => nodes.flatMap((node): FileSystemNode[] => {
+    if (node.type === 'file') return fileIds.has(node.id) ? [node] : [];
+    const children = pruneTree(node.children, fileIds);
+    return children.length > 0 ? [{ ...node, children }] : [];
+});
+
+// Git's check-ref-format, simplified: no spaces, control or special characters, no "..",
+// no leading "-" and no leading/trailing "/" or "."
+export const validateBranchName = (name: string): boolean => {
+    if (!name || name === 'HEAD') return false;
+    if (/[\s~^:?*[\\\x00-\x1f\x7f]|\.\.|@\{|\/\/|\.lock$/.test(name)) return false;
+    if (/^[-/.]|[/.]$/.test(name)) return false;
+    return true;
+};
+
+// Line-level hunks turning `base` into `other`: base[start, end) is replaced by `lines`
+interface LineHunk {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+const diffHunks = (base: string[], other: string[]): LineHunk[] => {
+    const hunks: LineHunk[] = [];
+    if (base.join('\n') === other.join('\n')) return hunks;
+
+    let current: LineHunk | null = null;
+    let i = 0;
+    for (const line of generateDiff(base.join('\n'), other.join('\n'))) {
+        if (line.type === 'common') {
+            current = null;
+            i++;
+            continue;
+        }
+        if (!current) {
+            current = { start: i, end: i, lines: [] };
+            hunks.push(current);
+        }
+        if (line.type === 'add') current.lines.push(line.content);
+        else current.end = ++i;
+    }
+    // An empty base comes back as additions only; its one empty line is replaced too
+    if (i < base.length) {
+        if (!current) hunks.push(current = { start: i, end: i, lines: [] });
+        current.end = base.length;
+    }
+    return hunks;
+};
+
+// For each line of `newLines` the diff keeps unchanged, its index in `oldLines`
+const mapUnchangedLines = (oldLines: string[], newLines: string[]) => {
+    const unchanged = new Map<number, number>();
+    let oldIndex = 0, newIndex = 0;
+    for (const hunk of [...diffHunks(oldLines, newLines), { start: oldLines.length, end: oldLines.length, lines: [] }]) {
+        while (oldIndex < hunk.start) unchanged.set(newIndex++, oldIndex++);
+        oldIndex = hunk.end;
+        newIndex += hunk.lines.length;
+    }
+    return unchanged;
+};
+
+// Blame per "<commit id>:<file id>"; see blameCommit
+const BLAME_CACHE_SIZE = 500;
+const blameCache = new Map<string, GitCommit[]>();
+
+const rememberBlame = (key: string, blame: GitCommit[]) => {
+    if (blameCache.size >= BLAME_CACHE_SIZE) blameCache.delete(blameCache.keys().next().value!);
+    blameCache.set(key, blame);
+};
+
+// Applies the hunks that fall inside base[start, end) and returns those lines
+const applyHunks = (base: string[], hunks: LineHunk[], start: number, end: number): string[] => {
+    const result: string[] = [];
+    let position = start;
+    for (const hunk of hunks) {
+        result.push(...base.slice(position, hunk.start), ...hunk.lines);
+        position = hunk.end;
+    }
+    result.push(...base.slice(position, end));
+    return result;
+};
+
+// diff3-style merge of two descendants of `base`. Changes that touch or overlap
+// the same base lines on both sides become conflict blocks unless they are identical.
+export const mergeText = (base: string, ours: string, theirs: string, oursLabel: string, theirsLabel: string) => {
+    const baseLines = base.split('\n');
+    const changes = [
+        ...diffHunks(baseLines, ours.split('\n')).map(hunk => ({ ...hunk, side: 'ours' as const })),
+        ...diffHunks(baseLines, theirs.split('\n')).map(hunk => ({ ...hunk, side: 'theirs' as const })),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const result: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let index = 0;
+    while (index < changes.length) {
+        const group = [changes[index++]];
+        let end = group[0].end;
+        while (index < changes.length && changes[index].start <= end) {
+            end = Math.max(end, changes[index].end);
+            group.push(changes[index++]);
+        }
+
+        const start = group[0].start;
+        const oursLines = applyHunks(baseLines, group.filter(h => h.side === 'ours'), start, end);
+        const theirsLines = applyHunks(baseLines, group.filter(h => h.side === 'theirs'), start, end);
+        result.push(...baseLines.slice(position, start));
+
+        const sides = new Set(group.map(h => h.side));
+        if (sides.size === 1 || oursLines.join('\n') === theirsLines.join('\n')) {
+            result.push(...(sides.has('ours') ? oursLines : theirsLines));
+        } else {
+            conflicts++;
+            result.push(`<<<<<<< ${oursLabel}`, ...oursLines, '=======', ...theirsLines, `>>>>>>> ${theirsLabel}`);
+        }
+        position = end;
+    }
+    result.push(...baseLines.slice(position));
+
+    return { content: result.join('\n'), conflicts };
+};
+
+export const hasConflictMarkers = (content: string) => /^<<<<<<< .*\n[\s\S]*?^=======$[\s\S]*?^>>>>>>> /m.test(content);
+
+export type GitMergeResult =
+    | { type: 'up-to-date' }
+    | { type: 'fast-forward'; tree: FileSystemNode[] }
+    | { type: 'merged'; tree: FileSystemNode[]; commit: GitCommit }
+    | { type: 'conflict'; tree: FileSystemNode[]; conflicts: string[] };
+
+// Three-way merge of whole trees, file by file (files are matched by id)
+export const mergeTrees = (base: FileSystemNode[], ours: FileSystemNode[], theirs: FileSystemNode[], oursLabel: string, theirsLabel: string) => {
+    const basePaths = collectFilePaths(base);
+    const oursPaths = collectFilePaths(ours);
+    const theirsPaths = collectFilePaths(theirs);
+    // Same content at the same path: a file moved to another folder is a change
+    const same = (a?: { file: File; path: string }, b?: { file: File; path: string }) => a?.file.content === b?.file.content && a?.path === b?.path;
+
+    // Files whose name and location come from their side, content merged line by line, files to delete
+    const takeTheirs = new Set<string>();
+    const mergedContent = new Map<string, string>();
+    const deleted: string[] = [];
+    const conflicts: string[] = [];
+
+    new Set([...oursPaths.keys(), ...theirsPaths.keys()]).forEach(id => {
+        const baseEntry = basePaths.get(id);
+        const oursEntry = oursPaths.get(id);
+        const theirsEntry = theirsPaths.get(id);
+        const baseFile = baseEntry?.file;
+        const oursFile = oursEntry?.file;
+        const theirsFile = theirsEntry?.file;
+
+        if (same(oursEntry, theirsEntry) || same(baseEntry, theirsEntry)) return;
+        if (same(baseEntry, oursEntry)) {
+            if (theirsFile) takeTheirs.add(id);
+            else deleted.push(id);
+            return;
+        }
+
+        // Changed on both sides
+        if (!oursFile || !theirsFile) {
+            // Modified on one side, deleted on the other: the modified file is kept with its
+            // content between markers (the deleted side empty), so committing waits until the
+            // user resolves the markers or deletes the file
+            if (theirsFile) takeTheirs.add(id);
+            mergedContent.set(id, [
+                `<<<<<<< ${oursLabel}`, ...(oursFile ? [oursFile.content] : []),
+                '=======', ...(theirsFile ? [theirsFile.content] : []),
+                `>>>>>>> ${theirsLabel}`,
+            ].join('\n'));
+            conflicts.push(id);
+            return;
+        }
+
+        if (theirsEntry?.path !== baseEntry?.path && oursEntry?.path === baseEntry?.path) takeTheirs.add(id);
+        const merged = mergeText(baseFile?.content ?? '', oursFile.content, theirsFile.content, oursLabel, theirsLabel);
+        mergedContent.set(id, merged.content);
+        if (merged.conflicts > 0) conflicts.push(id);
+    });
+
+    let tree = applyFilesToTree(ours, theirs, takeTheirs);
+    deleted.forEach(id => {
+        tree = removeNodeFromTree(tree, id);
+    });
+    mergedContent.forEach((content, id) => {
+        tree = updateNodeInTree(tree, id, node => ({ ...node, content } as File));
+    });
+
+    return { tree, conflicts };
+};
+
+// Local commit history and branches. HEAD's tree is the app's savedFileSystem; commits are
+// full snapshots so any file can be read at any revision without replaying deltas.
+export const useGitRepository = (savedFileSystem: FileSystemNode[]) => {
+    const [commits, setCommits] = useState<GitCommit[]>(() => {
+        const saved = localStorage.getItem('nexus-code-git-commits');
+        // A fresh project starts with its current HEAD as the root commit
+        return saved ? JSON.parse(saved) : [createCommit(savedFileSystem, 'Initial commit', 'Nexus Code', null)];
+    });
+
+    // Branch name -> commit id at its tip
+    const [branches, setBranches] = useState<Record<string, string>>(() => {
+        const saved = localStorage.getItem('nexus-code-git-branches');
+        return saved ? JSON.parse(saved) : { main: commits[commits.length - 1].id };
+    });
+
+    const [currentBranch, setCurrentBranch] = useState<string>(() => {
+        const saved = localStorage.getItem('nexus-code-git-current-branch');
+        return saved && branches[saved] ? saved : Object.keys(branches)[0];
+    });
+
+    const [mergeState, setMergeState] = useState<GitMergeState | null>(() => {
+        const saved = localStorage.getItem('nexus-code-git-merge');
+        return saved ? JSON.parse(saved) : null;
+    });
+
+    const [stashes, setStashes] = useState<GitStash[]>(() => {
+        const saved = localStorage.getItem('nexus-code-git-stashes');
+        return saved ? JSON.parse(saved) : [];
+    });
+
+    // The staging area: file id -> content to commit. Partially staged files hold a
+    // mix of HEAD and working lines; null stages a deletion; files without an entry are not staged.
+    const [index, setIndex] = useState<Record<string, string | null>>(() => {
+        const saved = localStorage.getItem('nexus-code-git-index');
+        return saved ? JSON.parse(saved) : {};
+    });
+
+    const [author, setAuthor] = useState<string>(() => {
+        return localStorage.getItem('nexus-code-git-author') || 'Nexus Developer';
+    });
+
+    const head = branches[currentBranch];
+
+    // Imported histories can outgrow the storage quota; they still work until reload.
+    // Said once, not on every commit that still does not fit.
+    const warnedAboutStorage = useRef(false);
+    useEffect(() => {
+        try {
+            localStorage.setItem('nexus-code-git-commits', JSON.stringify(commits));
+        } catch {
+            if (warnedAboutStorage.current) return;
+            warnedAboutStorage.current = true;
+            alert('The commit history is too large for browser storage. It will be lost when the page is reloaded.');
+        }
+    }, [commits]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-git-branches', JSON.stringify(branches));
+        localStorage.setItem('nexus-code-git-current-branch', currentBranch);
+    }, [branches, currentBranch]);
+
+    useEffect(() => {
+        if (mergeState) {
+            localStorage.setItem('nexus-code-git-merge', JSON.stringify(mergeState));
+        } else {
+            localStorage.removeItem('nexus-code-git-merge');
+        }
+    }, [mergeState]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-git-stashes', JSON.stringify(stashes));
+    }, [stashes]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-git-index', JSON.stringify(index));
+    }, [index]);
+
+    useEffect(() => {
+        localStorage.setItem('nexus-code-git-author', author);
+    }, [author]);
+
+    const getCommit = useCallback((commitId: string) => {
+        return commits.find(c => c.id === commitId) ?? null;
+    }, [commits]);
+
+    // Every commit reachable from `from`, following both parents of merges
+    const getAncestors = useCallback((from: string): Set<string> => {
+        const seen = new Set<string>();
+        const queue = [from];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            const current = getCommit(id);
+            if (!current || seen.has(id)) continue;
+            seen.add(id);
+            if (current.parentId) queue.push(current.parentId);
+            if (current.mergeParentId) queue.push(current.mergeParentId);
+        }
+        return seen;
+    }, [getCommit]);
+
+    // Records `tree` (the new HEAD) as a child of the current HEAD. While a merge is
+    // in progress, this is the merge commit and the merged branch becomes its second parent.
+    const commit = useCallback((tree: FileSystemNode[], message: string) => {
+        const newCommit = createCommit(tree, message, author, head, mergeState?.commitId);
+        setCommits(prev => [...prev, newCommit]);
+        setBranches(prev => ({ ...prev, [currentBranch]: newCommit.id }));
+        setMergeState(null);
+        setIndex({});
+        return newCommit;
+    }, [author, head, currentBranch, mergeState]);
+
+    // Newest first, across both parents of merge commits
+    const getLog = useCallback((from: string = head): GitCommit[] => {
+        const reachable = getAncestors(from);
+        // Commits are recorded parents first; reversing keeps children ahead on equal timestamps
+        return commits
+            .filter(c => reachable.has(c.id))
+            .reverse()
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }, [head, commits, getAncestors]);
+
+    const getCommitChanges = useCallback((commitId: string): GitFileChange[] => {
+        const target = getCommit(commitId);
+        if (!target) return [];
+        const parent = target.parentId ? getCommit(target.parentId) : null;
+        return diffTrees(parent?.tree ?? [], target.tree);
+    }, [getCommit]);
+
+    // A read-only copy of the file as it was at `commitId`, ready to open in a tab
+    const getFileAtRevision = useCallback((commitId: string, fileId: string): File | null => {
+        const target = getCommit(commitId);
+        const file = target && collectFiles(target.tree).get(fileId);
+        if (!file) return null;
+        return {
+            ...file,
+            id: `${commitId}:${fileId}`,
+            name: `${file.name} @ ${shortCommitId(commitId)}`,
+            revision: commitId,
+        };
+    }, [getCommit]);
+
+    // Commits that added, changed, renamed or deleted the file, newest first
+    const getFileHistory = useCallback((fileId: string, from: string = head): GitFileRevision[] => {
+        return getLog(from).flatMap((current): GitFileRevision[] => {
+            const file = collectFiles(current.tree).get(fileId);
+            const parent = current.parentId ? getCommit(current.parentId) : null;
+            const previous = (parent && collectFiles(parent.tree).get(fileId)) ?? null;
+            if (!file && !previous) return [];
+            if (file && previous && file.content === previous.content && file.name === previous.name) return [];
+            return [{ commit: current, status: !previous ? 'A' : !file ? 'D' : 'M', file: file ?? previous!, previous }];
+        });
+    }, [head, getLog, getCommit]);
+
+    // Blame of a file as committed in `commit`, one entry per line. Commits never change, so
+    // each one is worked out once (from its first parent's) and cached.
+    const blameCommit = useCallback((fileId: string, commit: GitCommit): GitCommit[] => {
+        // Walk back to the first commit with a cached answer or without the file...
+        const chain: { commit: GitCommit; file: File }[] = [];
+        let current: GitCommit | null = commit;
+        let known: GitCommit[] | undefined;
+        while (current) {
+            known = blameCache.get(`${current.id}:${fileId}`);
+            const file = collectFiles(current.tree).get(fileId);
+            if (known || !file) break;
+            chain.push({ commit: current, file });
+            current = current.parentId ? getCommit(current.parentId) : null;
+        }
+
+        // ...then forward again, each commit inheriting the lines it left unchanged
+        let previous = known && current ? { file: collectFiles(current.tree).get(fileId)!, blame: known } : null;
+        for (const { commit: owner, file } of chain.reverse()) {
+            let blame: GitCommit[];
+            if (previous && previous.file.content === file.content) {
+                blame = previous.blame;
+            } else {
+                const unchanged = previous ? mapUnchangedLines(previous.file.content.split('\n'), file.content.split('\n')) : new Map<number, number>();
+                blame = file.content.split('\n').map((_, i) => {
+                    const oldIndex = unchanged.get(i);
+                    return oldIndex === undefined ? owner : previous!.blame[oldIndex];
+                });
+            }
+            rememberBlame(`${owner.id}:${fileId}`, blame);
+            previous = { file, blame };
+        }
+        return previous?.blame ?? [];
+    }, [getCommit]);
+
+    // The commit that last changed each line of `content`, a version of the file that
+    // descends from `from`; null marks lines not committed yet. Follows first parents,
+    // so lines brought in by a merge are credited to the merge commit. Only the step from
+    // `from` to `content` is diffed on each call; the history comes from the cache.
+    const blameFile = useCallback((fileId: string, content: string, from: string = head): (GitCommit | null)[] => {
+        const lines = content.split('\n');
+        const commit = getCommit(from);
+        const file = commit && collectFiles(commit.tree).get(fileId);
+        if (!commit || !file) return Array(lines.length).fill(null);
+
+        const committed = blameCommit(fileId, commit);
+        if (file.content === content) return committed;
+        const unchanged = mapUnchangedLines(file.content.split('\n'), lines);
+        return lines.map((_, i) => {
+            const oldIndex = unchanged.get(i);
+            return oldIndex === undefined ? null : committed[oldIndex];
+        });
+    }, [head, getCommit, blameCommit]);
+
+    const createBranch = useCallback((name: string, from: string = head) => {
+        if (!validateBranchName(name) || branches[name] || !getCommit(from)) return false;
+        setBranches(prev => ({ ...prev, [name]: from }));
+        return true;
+    }, [head, branches, getCommit]);
+
+    const renameBranch = useCallback((oldName: string, newName: string) => {
+        if (!branches[oldName] || !validateBranchName(newName) || branches[newName]) return false;
+        setBranches(prev => {
+            const { [oldName]: tip, ...rest } = prev;
+            return { ...rest, [newName]: tip };
+        });
+        if (currentBranch === oldName) setCurrentBranch(newName);
+        return true;
+    }, [branches, currentBranch]);
+
+    const deleteBranch = useCallback((name: string) => {
+        if (!branches[name] || name === currentBranch) return false;
+        setBranches(prev => {
+            const { [name]: _, ...rest } = prev;
+            return rest;
+        });
+        return true;
+    }, [branches, currentBranch]);
+
+    // Moves HEAD to `name` and returns the tree to load; the caller swaps the working tree
+    const checkoutBranch = useCallback((name: string) => {
+        const target = branches[name] && getCommit(branches[name]);
+        if (!target) return null;
+        setCurrentBranch(name);
+        setMergeState(null);
+        setIndex({});
+        return target.tree;
+    }, [branches, getCommit]);
+
+    // Merges branch `name` into the current branch. A clean merge is committed straight
+    // away; on conflicts the merged tree (with markers) is returned for the user to resolve.
+    const mergeBranch = useCallback((name: string): GitMergeResult | null => {
+        const theirsId = branches[name];
+        const ours = getCommit(head);
+        const theirs = theirsId && getCommit(theirsId);
+        if (!ours || !theirs || name === currentBranch) return null;
+
+        const oursAncestors = getAncestors(ours.id);
+        if (oursAncestors.has(theirs.id)) return { type: 'up-to-date' };
+        setIndex({});
+
+        const theirsAncestors = getAncestors(theirs.id);
+        if (theirsAncestors.has(ours.id)) {
+            setBranches(prev => ({ ...prev, [currentBranch]: theirs.id }));
+            return { type: 'fast-forward', tree: theirs.tree };
+        }
+
+        // Merge base: the newest commit both branches share
+        const base = getLog(theirs.id).find(c => oursAncestors.has(c.id));
+        const { tree, conflicts } = mergeTrees(base?.tree ?? [], ours.tree, theirs.tree, currentBranch, name);
+
+        if (conflicts.length > 0) {
+            setMergeState({ branch: name, commitId: theirs.id, conflicts });
+            return { type: 'conflict', tree, conflicts };
+        }
+
+        const mergeCommit = createCommit(tree, `Merge branch '${name}' into ${currentBranch}`, author, ours.id, theirs.id);
+        setCommits(prev => [...prev, mergeCommit]);
+        setBranches(prev => ({ ...prev, [currentBranch]: mergeCommit.id }));
+        return { type: 'merged', tree, commit: mergeCommit };
+    }, [branches, head, currentBranch, author, getCommit, getAncestors, getLog]);
+
+    const abortMerge = useCallback(() => {
+        setMergeState(null);
+        setIndex({});
+        return getCommit(head)?.tree ?? null;
+    }, [head, getCommit]);
+
+    // `null` stages the file's deletion. Staging content equal to HEAD's is the same as
+    // not staging the file, unless `keep` is set (a rename or move that kept its content).
+    const stageFile = useCallback((fileId: string, content: string | null, keep = false) => {
+        const headFile = collectFiles(getCommit(head)?.tree ?? []).get(fileId);
+        setIndex(prev => {
+            const { [fileId]: _, ...rest } = prev;
+            return headFile?.content === content && !keep ? rest : { ...rest, [fileId]: content };
+        });
+    }, [head, getCommit]);
+
+    const unstageFile = useCallback((fileId: string) => {
+        setIndex(prev => {
+            const { [fileId]: _, ...rest } = prev;
+            return rest;
+        });
+    }, []);
+
+    const clearIndex = useCallback(() => setIndex({}), []);
+
+    // Sets aside the working tree's changes relative to HEAD. Returns null when there is
+    // nothing to stash; the caller then resets the working tree to HEAD.
+    const pushStash = useCallback((working: FileSystemNode[], message?: string) => {
+        const changes = diffTrees(savedFileSystem, working);
+        if (changes.length === 0) return null;
+
+        const changedIds = new Set(changes.filter(c => c.status !== 'D').map(c => c.file.id));
+        const headCommit = getCommit(head);
+        const stash: GitStash = {
+            id: hashCommit(`${head}\n${Date.now()}\n${message}`),
+            message: message
+                ? `On ${currentBranch}: ${message}`
+                : `WIP on ${currentBranch}: ${shortCommitId(head)} ${headCommit?.message.split('\n')[0] ?? ''}`,
+            branch: currentBranch,
+            commitId: head,
+            timestamp: Date.now(),
+            changes: snapshotTree(pruneTree(working, changedIds)),
+            deleted: changes.filter(c => c.status === 'D').map(c => c.file.id),
+        };
+        setStashes(prev => [stash, ...prev]);
+        setIndex({});
+        return stash;
+    }, [savedFileSystem, head, currentBranch, getCommit]);
+
+    // Three-way merges stash@{n} into `working`, using the commit it was made on as the base,
+    // so popping onto a tree that moved on keeps both sides and marks real conflicts
+    const applyStash = useCallback((n: number, working: FileSystemNode[]) => {
+        const stash = stashes[n];
+        const base = stash && getCommit(stash.commitId);
+        if (!stash || !base) return null;
+
+        let stashed = applyFilesToTree(base.tree, stash.changes, new Set(collectFiles(stash.changes).keys()));
+        stash.deleted.forEach(id => {
+            stashed = removeNodeFromTree(stashed, id);
+        });
+
+        const { tree, conflicts } = mergeTrees(base.tree, working, stashed, 'Updated upstream', 'Stashed changes');
+        return { stash, tree, conflicts };
+    }, [stashes, getCommit]);
+
+    const dropStash = useCallback((n: number) => {
+        const stash = stashes[n];
+        if (!stash) return null;
+        setStashes(prev => prev.filter(s => s.id !== stash.id));
+        return stash;
+    }, [stashes]);
+
+    // Swaps in a whole history (an imported repository) and returns the tree to check out.
+    // Stashes and the index refer to the old history, so they go too.
+    const replaceRepository = useCallback((newCommits: GitCommit[], newBranches: Record<string, string>, branch: string) => {
+        const target = newCommits.find(c => c.id === newBranches[branch]);
+        if (!target) return null;
+        setCommits(newCommits);
+        setBranches(newBranches);
+        setCurrentBranch(branch);
+        setMergeState(null);
+        setStashes([]);
+        setIndex({});
+        return target.tree;
+    }, []);
+
+    return {
+        commits,
+        head,
+        branches,
+        currentBranch,
+        mergeState,
+        stashes,
+        index,
+        author,
+        setAuthor,
+        commit,
+        getCommit,
+        getLog,
+        getCommitChanges,
+        getFileAtRevision,
+        getFileHistory,
+        blameFile,
+        createBranch,
+        renameBranch,
+        deleteBranch,
+        checkoutBranch,
+        mergeBranch,
+        abortMerge,
+        stageFile,
+        unstageFile,
+        clearIndex,
+        pushStash,
+        applyStash,
+        dropStash,
+        replaceRepository,
+    };
+};
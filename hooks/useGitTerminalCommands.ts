@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { FileSystemNode, GitStash, GitStashApplyResult } from '../types';
+import { TerminalCommand, fail } from './useTerminal';
+import { useTerminalCommands } from './useTerminalCommands';
+
+export interface GitTerminalHandlers {
+    stashes: GitStash[];
+    pushStash: (working: FileSystemNode[], message?: string) => GitStash | null;
+    applyStash: (n: number, working: FileSystemNode[], drop: boolean) => GitStashApplyResult | null;
+    dropStash: (n: number) => GitStash | null;
+}
+
+// Accepts `stash@{n}` or a bare `n`; defaults to the newest stash
+const parseStashRef = (ref?: string): number | null => {
+    if (ref === undefined) return 0;
+    const match = ref.match(/^(?:stash@\{(\d+)\}|(\d+))$/);
+    return match ? Number(match[1] ?? match[2]) : null;
+};
+
+const STASH_USAGE = 'stash [push [-m <message>] | list | pop [<stash>] | apply [<stash>] | drop [<stash>]]';
+
+// Git commands for the integrated terminal, registered while App is mounted
+export const useGitTerminalCommands = ({ stashes, pushStash, applyStash, dropStash }: GitTerminalHandlers) => {
+    const commands = useMemo((): TerminalCommand[] => [
+        {
+            name: 'stash',
+            description: 'Set aside uncommitted changes and restore them later',
+            usage: STASH_USAGE,
+            complete: (args) => args.length <= 1
+                ? ['push', 'list', 'pop', 'apply', 'drop']
+                : stashes.map((_, n) => `stash@{${n}}`),
+            execute: (args, { fileSystem }) => {
+                const [subcommand = 'push', ...rest] = args;
+
+                if (subcommand === 'push') {
+                    const messageFlag = rest.indexOf('-m');
+                    if (messageFlag !== -1 && rest[messageFlag + 1] === undefined) return fail('stash: option -m needs a message');
+                    const stash = pushStash(fileSystem, messageFlag !== -1 ? rest[messageFlag + 1] : undefined);
+                    return stash ? `Saved working directory and index state ${stash.message}` : 'No local changes to save';
+                }
+
+                if (subcommand === 'list') {
+                    return stashes.map((stash, n) => `stash@{${n}}: ${stash.message}`).join('\n');
+                }
+
+                if (!['pop', 'apply', 'drop'].includes(subcommand)) return fail(`Usage: ${STASH_USAGE}`);
+
+                const n = parseStashRef(rest[0]);
+                if (n === null || !stashes[n]) {
+                    return fail(stashes.length === 0 ? 'No stash entries found.' : `stash: ${rest[0]} is not a valid reference`);
+                }
+
+                if (subcommand === 'drop') {
+                    const dropped = dropStash(n);
+                    return dropped ? `Dropped stash@{${n}} (${dropped.id.slice(0, 7)})` : fail(`stash: could not drop stash@{${n}}`);
+                }
+
+                const result = applyStash(n, fileSystem, subcommand === 'pop');
+                if (!result) return fail(`stash: could not apply stash@{${n}}`);
+                if (result.conflicts.length > 0) {
+                    const lines = result.conflicts.map(name => `CONFLICT (content): Merge conflict in ${name}`);
+                    return fail([...lines, 'The stash entry is kept in case you need it again.'].join('\n'));
+                }
+                return subcommand === 'pop'
+                    ? `Applied and dropped stash@{${n}} (${result.stash.id.slice(0, 7)})`
+                    : `Applied stash@{${n}}`;
+            }
+        },
+    ], [stashes, pushStash, applyStash, dropStash]);
+
+    useTerminalCommands(commands);
+};
@@ -1,5 +1,29 @@
-import { useState, useCallback, useEffect } from 'react';
-import { File } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { File, EditHistory, EditKind, EditSnapshot, DiffSource, DiffTab } from '../types';
+
+// Consecutive edits of the same kind within this window are undone as one step
+const EDIT_GROUP_TIMEOUT = 1000;
+const MAX_UNDO_STEPS = 200;
+
+const createEditHistory = (): EditHistory => ({
+    undoStack: [],
+    redoStack: [],
+    lastKind: null,
+    lastEditAt: 0,
+});
+
+// Same comparison, same tab; each fixed text is its own comparison
+const diffSourceKey = (source: DiffSource) => {
+    switch (source.kind) {
+        case 'working':
+        case 'head':
+            return `${source.kind}:${source.fileId}`;
+        case 'revision':
+            return `${source.commitId}:${source.fileId}`;
+        case 'text':
+            return `text:${source.id}`;
+    }
+};
 
 export const useOpenFiles = () => {
     const [openFiles, setOpenFiles] = useState<File[]>(() => {
@@ -11,11 +35,28 @@ export const useOpenFiles = () => {
         return saved || null;
     });
 
+    // Comparisons open next to the files; while one is active it covers the editor
+    const [diffTabs, setDiffTabs] = useState<DiffTab[]>(() => {
+        const saved = localStorage.getItem('nexus-code-diff-tabs');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const [activeDiffId, setActiveDiffId] = useState<string | null>(null);
+
+    // Edit history lives outside React state so undo/redo never triggers a re-render,
+    // and outside CodeEditor so it survives switching tabs
+    const editHistories = useRef<Record<string, EditHistory>>({});
+
     // Persist open files to localStorage
     useEffect(() => {
         localStorage.setItem('nexus-code-open-files', JSON.stringify(openFiles));
     }, [openFiles]);
 
+    // Comparisons with fixed texts (the clipboard) are not written to storage
+    useEffect(() => {
+        const saved = diffTabs.filter(tab => tab.left.kind !== 'text' && tab.right.kind !== 'text');
+        localStorage.setItem('nexus-code-diff-tabs', JSON.stringify(saved));
+    }, [diffTabs]);
+
     // Persist active file to localStorage
     useEffect(() => {
         if (activeFileId) {
@@ -30,8 +71,20 @@ export const useOpenFiles = () => {
             setOpenFiles(prev => [...prev, file]);
         }
         setActiveFileId(file.id);
+        setActiveDiffId(null);
     }, [openFiles]);
 
+    const openDiff = useCallback((left: DiffSource, right: DiffSource) => {
+        const id = `diff:${diffSourceKey(left)}..${diffSourceKey(right)}`;
+        setDiffTabs(prev => prev.some(tab => tab.id === id) ? prev : [...prev, { id, left, right }]);
+        setActiveDiffId(id);
+    }, []);
+
+    const closeDiff = useCallback((diffId: string) => {
+        setDiffTabs(prev => prev.filter(tab => tab.id !== diffId));
+        if (activeDiffId === diffId) setActiveDiffId(null);
+    }, [activeDiffId]);
+
     const closeFile = useCallback((fileId: string) => {
         const fileIndex = openFiles.findIndex(f => f.id === fileId);
         if (fileIndex === -1) return;
@@ -47,6 +100,7 @@ export const useOpenFiles = () => {
 
         setOpenFiles(prev => prev.filter(f => f.id !== fileId));
         setActiveFileId(newActiveFileId);
+        delete editHistories.current[fileId];
     }, [activeFileId, openFiles]);
 
     const updateFile = useCallback((fileId: string, updates: Partial<File>) => {
@@ -62,11 +116,14 @@ export const useOpenFiles = () => {
     const closeAllFiles = useCallback(() => {
         setOpenFiles([]);
         setActiveFileId(null);
+        editHistories.current = {};
     }, []);
 
     const closeOtherFiles = useCallback((fileId: string) => {
         setOpenFiles(prev => prev.filter(f => f.id === fileId));
         setActiveFileId(fileId);
+        const kept = editHistories.current[fileId];
+        editHistories.current = kept ? { [fileId]: kept } : {};
     }, []);
 
     const closeFilesToTheRight = useCallback((fileId: string) => {
@@ -74,12 +131,34 @@ export const useOpenFiles = () => {
         if (fileIndex === -1) return;
 
         setOpenFiles(prev => prev.slice(0, fileIndex + 1));
+        openFiles.slice(fileIndex + 1).forEach(f => {
+            delete editHistories.current[f.id];
+        });
         
         if (activeFileId && !openFiles.slice(0, fileIndex + 1).some(f => f.id === activeFileId)) {
             setActiveFileId(fileId);
         }
     }, [openFiles, activeFileId]);
 
+    // Refreshes the tabs after the whole tree is swapped (checkout, merge): tabs take the new
+    // content, tabs whose file no longer exists close, and revision tabs are left alone
+    const reloadFiles = useCallback((resolveFile: (fileId: string) => File | null) => {
+        const kept: File[] = [];
+        openFiles.forEach(f => {
+            const file = f.revision ? f : resolveFile(f.id);
+            if (file) {
+                kept.push(f.revision ? f : { ...f, name: file.name, content: file.content, gitStatus: file.gitStatus, isDirty: false });
+            } else {
+                delete editHistories.current[f.id];
+            }
+        });
+
+        setOpenFiles(kept);
+        if (activeFileId && !kept.some(f => f.id === activeFileId)) {
+            setActiveFileId(kept.length > 0 ? kept[0].id : null);
+        }
+    }, [openFiles, activeFileId]);
+
     const getActiveFile = useCallback(() => {
         return openFiles.find(f => f.id === activeFileId) || null;
     }, [openFiles, activeFileId]);
@@ -88,6 +167,48 @@ export const useOpenFiles = () => {
         return openFiles.some(f => f.id === fileId);
     }, [openFiles]);
 
+    // Records the state *before* an edit. Typing of the same kind is grouped
+    // into a single undo step; commands (duplicate line, Tab, ...) never are.
+    const recordEdit = useCallback((fileId: string, before: EditSnapshot, kind: EditKind) => {
+        const history = editHistories.current[fileId] ?? createEditHistory();
+        const now = Date.now();
+        const canGroup = kind !== 'command'
+            && history.lastKind === kind
+            && now - history.lastEditAt < EDIT_GROUP_TIMEOUT
+            && history.undoStack.length > 0;
+
+        if (!canGroup) {
+            history.undoStack.push(before);
+            if (history.undoStack.length > MAX_UNDO_STEPS) {
+                history.undoStack.shift();
+            }
+        }
+        history.redoStack = [];
+        history.lastKind = kind;
+        history.lastEditAt = now;
+        editHistories.current[fileId] = history;
+    }, []);
+
+    const undoEdit = useCallback((fileId: string, current: EditSnapshot): EditSnapshot | null => {
+        const history = editHistories.current[fileId];
+        const previous = history?.undoStack.pop();
+        if (!history || !previous) return null;
+
+        history.redoStack.push(current);
+        history.lastKind = null;
+        return previous;
+    }, []);
+
+    const redoEdit = useCallback((fileId: string, current: EditSnapshot): EditSnapshot | null => {
+        const history = editHistories.current[fileId];
+        const next = history?.redoStack.pop();
+        if (!history || !next) return null;
+
+        history.undoStack.push(current);
+        history.lastKind = null;
+        return next;
+    }, []);
+
     return {
         openFiles,
         activeFileId,
@@ -97,9 +218,18 @@ export const useOpenFiles = () => {
         closeAllFiles,
         closeOtherFiles,
         closeFilesToTheRight,
+        reloadFiles,
         getActiveFile,
         isFileOpen,
         setActiveFileId,
+        diffTabs,
+        activeDiffId,
+        setActiveDiffId,
+        openDiff,
+        closeDiff,
+        recordEdit,
+        undoEdit,
+        redoEdit,
     };
 };
 
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { FileSystemNode, File } from '../types';
+import { parsePatch, applyHunks, applyFilePatch } from './usePatches';
+
+const patch = (...lines: string[]) => lines.join('\n');
+const file = (id: string, name: string, content: string): File => ({ id, type: 'file', name, language: 'typescript', content });
+
+// Every file as "path: content"
+const listFiles = (nodes: FileSystemNode[], prefix = ''): string[] => nodes.flatMap(node => node.type === 'file'
+    ? [`${prefix}${node.name}: ${node.content}`]
+    : listFiles(node.children, `${prefix}${node.name}/`));
+
+// The hunks of a single-file patch
+const hunksOf = (text: string) => parsePatch(text)[0].hunks;
+
+const EDIT_B = patch(
+    '--- a/x.ts',
+    '+++ b/x.ts',
+    '@@ -1,3 +1,3 @@',
+    ' a',
+    '-b',
+    '+B',
+    ' c',
+);
+
+describe('parsePatch', () => {
+    it('reads plain unified diffs, dropping the a/ and b/ prefixes', () => {
+        expect(parsePatch(EDIT_B)).toEqual([{
+            oldPath: 'x.ts',
+            newPath: 'x.ts',
+            hunks: [{ header: '@@ -1,3 +1,3 @@', oldStart: 1, lines: [
+                { type: ' ', content: 'a' },
+                { type: '-', content: 'b' },
+                { type: '+', content: 'B' },
+                { type: ' ', content: 'c' },
+            ] }],
+        }]);
+    });
+
+    it('skips mail headers and reads created, deleted and renamed files', () => {
+        const patches = parsePatch(patch(
+            'From 1234 Mon Sep 17 00:00:00 2001',
+            'Subject: [PATCH] Shuffle files',
+            '',
+            '---',
+            ' 3 files changed',
+            '',
+            'diff --git a/new.ts b/new.ts',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/new.ts',
+            '@@ -0,0 +1 @@',
+            '+hello',
+            'diff --git a/old.ts b/old.ts',
+            'deleted file mode 100644',
+            '--- a/old.ts',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye',
+            'diff --git a/from.ts b/src/to.ts',
+            'similarity index 100%',
+            'rename from from.ts',
+            'rename to src/to.ts',
+            '-- ',
+            '2.43.0',
+        ));
+        expect(patches.map(({ oldPath, newPath, hunks }) => [oldPath, newPath, hunks.length])).toEqual([
+            [null, 'new.ts', 1],
+            ['old.ts', null, 1],
+            ['from.ts', 'src/to.ts', 0],
+        ]);
+    });
+
+    it('counts empty lines as context and marks a missing final newline', () => {
+        const [hunk] = hunksOf(patch(
+            '--- a/x.ts',
+            '+++ b/x.ts',
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '',
+            '-b',
+            '\\ No newline at end of file',
+            '+c',
+            '\\ No newline at end of file',
+        ));
+        expect(hunk.lines.map(line => line.type + line.content)).toEqual([' a', ' ', '-b\u0000', '+c\u0000']);
+    });
+});
+
+describe('applyHunks', () => {
+    it('applies a hunk where it says', () => {
+        expect(applyHunks('a\nb\nc\n', hunksOf(EDIT_B))).toEqual({
+            content: 'a\nB\nc\n',
+            results: [{ header: '@@ -1,3 +1,3 @@', applied: true, offset: 0, fuzz: 0 }],
+        });
+    });
+
+    it('applies a hunk whose lines moved, reporting the offset', () => {
+        const { content, results } = applyHunks('new\nlines\na\nb\nc\n', hunksOf(EDIT_B));
+        expect(content).toBe('new\nlines\na\nB\nc\n');
+        expect(results[0]).toMatchObject({ applied: true, offset: 2, fuzz: 0 });
+    });
+
+    it('drops context lines that no longer match, up to two at each end', () => {
+        const edit = hunksOf(patch(
+            '--- a/x.ts',
+            '+++ b/x.ts',
+            '@@ -1,7 +1,7 @@',
+            ' one',
+            ' two',
+            ' three',
+            '-four',
+            '+FOUR',
+            ' five',
+            ' six',
+            ' seven',
+        ));
+        const lines = (...changed: string[]) => ['one', 'two', 'three', 'four', 'five', 'six', 'seven']
+            .map(line => changed.includes(line) ? line.toUpperCase() : line).join('\n') + '\n';
+
+        const fuzz1 = applyHunks(lines('one'), edit);
+        expect(fuzz1.content).toBe('ONE\ntwo\nthree\nFOUR\nfive\nsix\nseven\n');
+        expect(fuzz1.results[0]).toMatchObject({ applied: true, offset: 0, fuzz: 1 });
+
+        const fuzz2 = applyHunks(lines('two', 'six'), edit);
+        expect(fuzz2.content).toBe('one\nTWO\nthree\nFOUR\nfive\nSIX\nseven\n');
+        expect(fuzz2.results[0]).toMatchObject({ applied: true, offset: 0, fuzz: 2 });
+
+        const rejected = applyHunks(lines('three'), edit);
+        expect(rejected.content).toBe(lines('three'));
+        expect(rejected.results[0]).toMatchObject({ applied: false, reason: 'The lines it changes were not found' });
+    });
+
+    it('adds and removes the final newline', () => {
+        const hunks = hunksOf(patch(
+            '--- a/x.ts',
+            '+++ b/x.ts',
+            '@@ -1,2 +1,2 @@',
+            ' a',
+            '-b',
+            '\\ No newline at end of file',
+            '+c',
+        ));
+        expect(applyHunks('a\nb', hunks).content).toBe('a\nc\n');
+        expect(applyHunks('a\nb\n', hunks).results[0]).toMatchObject({ applied: false });
+    });
+
+    it('keeps the hunks that apply and says why the others did not', () => {
+        const hunks = hunksOf(patch(
+            '--- a/x.ts',
+            '+++ b/x.ts',
+            '@@ -1,2 +1,2 @@',
+            '-a',
+            '+A',
+            ' b',
+            '@@ -5,2 +5,2 @@',
+            ' e',
+            '-f',
+            '+F',
+            '@@ -8,2 +8,2 @@',
+            ' h',
+            '-missing',
+            '+gone',
+        ));
+        const { content, results } = applyHunks('a\nb\nc\nd\ne\nF\ng\nh\ni\n', hunks);
+        expect(content).toBe('A\nb\nc\nd\ne\nF\ng\nh\ni\n');
+        expect(results.map(result => [result.applied, result.reason])).toEqual([
+            [true, undefined],
+            [false, 'The change is already in the file'],
+            [false, 'The lines it changes were not found'],
+        ]);
+    });
+});
+
+describe('applyFilePatch', () => {
+    const tree = (): FileSystemNode[] => [file('x', 'x.ts', 'a\nb\nc\n'), file('old', 'old.ts', 'bye\n')];
+
+    it('creates a file with the folders on its path', () => {
+        const [created] = parsePatch(patch('--- /dev/null', '+++ b/src/lib/new.ts', '@@ -0,0 +1 @@', '+hello'));
+        const { tree: patched, result } = applyFilePatch(tree(), created);
+        expect(result.error).toBeUndefined();
+        expect(listFiles(patched)).toContain('src/lib/new.ts: hello\n');
+    });
+
+    it('refuses to create a file that exists', () => {
+        const [created] = parsePatch(patch('--- /dev/null', '+++ b/x.ts', '@@ -0,0 +1 @@', '+hello'));
+        expect(applyFilePatch(tree(), created).result.error).toBe('x.ts already exists');
+    });
+
+    it('deletes a file only when its content is what the patch removes', () => {
+        const [deleted] = parsePatch(patch('--- a/old.ts', '+++ /dev/null', '@@ -1 +0,0 @@', '-bye'));
+        expect(listFiles(applyFilePatch(tree(), deleted).tree)).toEqual(['x.ts: a\nb\nc\n']);
+
+        const edited = [file('x', 'x.ts', ''), file('old', 'old.ts', 'bye\nagain\n')];
+        const { tree: kept, result } = applyFilePatch(edited, deleted);
+        expect(kept).toBe(edited);
+        expect(result.error).toBe('old.ts was not deleted: its content differs');
+    });
+
+    it('renames a file, applying its hunks on the way', () => {
+        const [renamed] = parsePatch(EDIT_B.replace('+++ b/x.ts', '+++ b/src/y.ts'));
+        const { tree: patched, result } = applyFilePatch(tree(), renamed);
+        expect(result).toMatchObject({ oldPath: 'x.ts', path: 'src/y.ts' });
+        expect(listFiles(patched)).toEqual(['old.ts: bye\n', 'src/y.ts: a\nB\nc\n']);
+    });
+
+    it('reports a patch for a file that does not exist', () => {
+        const [missing] = parsePatch(EDIT_B.replace(/x\.ts/g, 'z.ts'));
+        expect(applyFilePatch(tree(), missing).result).toMatchObject({ error: 'z.ts does not exist', hunks: [{ applied: false }] });
+    });
+});
@@ -0,0 +1,287 @@
+import { useCallback } from 'react';
+import { FileSystemNode, File, Folder, GitCommit, PatchFileResult, PatchHunkResult } from '../types';
+import { addNodeToFolder, generateId, removeNodeFromTree, updateNodeInTree } from './useFileSystem';
+import { NO_NEWLINE, toPatchLines, formatTreeDiff, downloadFile, languageForName } from './useGitInterop';
+
+interface PatchHunk {
+    header: string;
+    oldStart: number;
+    // Lines as in toPatchLines: the last one carries NO_NEWLINE when the file lacks a final newline
+    lines: { type: ' ' | '-' | '+'; content: string }[];
+}
+
+interface FilePatch {
+    oldPath: string | null;
+    newPath: string | null;
+    hunks: PatchHunk[];
+}
+
+// Context lines that may be dropped from each end of a hunk that does not match, as GNU patch does
+const MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Helper functions
+// "a/src/x.ts\t2024-01-01 ..." -> "a/src/x.ts"; /dev/null -> null
+const parsePatchPath = (raw: string) => {
+    let path = raw.split('\t')[0].trim();
+    if (path.startsWith('"') && path.endsWith('"')) path = path.slice(1, -1);
+    return path === '/dev/null' ? null : path;
+};
+
+const stripPrefix = (path: string | null, prefix: string) => path?.startsWith(prefix) ? path.slice(prefix.length) : path;
+
+// Reads `git diff`, `git format-patch` and plain `diff -u` output; anything outside
+// the file headers and hunks (mail headers, commit messages, stats) is skipped
+export const parsePatch = (text: string): FilePatch[] => {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const patches: FilePatch[] = [];
+    // The file being read, and whether its ---/+++ pair has been seen (a `diff --git` header comes before it)
+    let current: FilePatch | null = null;
+    let hasPaths = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const git = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+        if (git) {
+            current = { oldPath: git[1], newPath: git[2], hunks: [] };
+            hasPaths = false;
+            patches.push(current);
+            continue;
+        }
+        if (current && !hasPaths && current.hunks.length === 0) {
+            if (line.startsWith('new file mode')) { current.oldPath = null; continue; }
+            if (line.startsWith('deleted file mode')) { current.newPath = null; continue; }
+            if (line.startsWith('rename from ')) { current.oldPath = line.slice(12); continue; }
+            if (line.startsWith('rename to ')) { current.newPath = line.slice(10); continue; }
+        }
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            let oldPath = parsePatchPath(line.slice(4));
+            let newPath = parsePatchPath(lines[i + 1].slice(4));
+            i++;
+            // git always prefixes a/ and b/; plain diffs only when both sides have them
+            const isGit = current !== null && !hasPaths && current.hunks.length === 0;
+            if (isGit || ((oldPath ?? 'a/').startsWith('a/') && (newPath ?? 'b/').startsWith('b/'))) {
+                oldPath = stripPrefix(oldPath, 'a/');
+                newPath = stripPrefix(newPath, 'b/');
+            }
+            if (isGit) {
+                current!.oldPath = oldPath;
+                current!.newPath = newPath;
+            } else {
+                current = { oldPath, newPath, hunks: [] };
+                patches.push(current);
+            }
+            hasPaths = true;
+            continue;
+        }
+
+        const header = line.match(HUNK_HEADER);
+        if (header && current) {
+            const hunk: PatchHunk = { header: header[0], oldStart: Number(header[1]), lines: [] };
+            let oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+            let newLeft = header[4] === undefined ? 1 : Number(header[4]);
+            while ((oldLeft > 0 || newLeft > 0 || lines[i + 1]?.startsWith('\\')) && i + 1 < lines.length) {
+                const next = lines[++i];
+                if (next.startsWith('\\')) {
+                    // "\ No newline at end of file" applies to the line before it
+                    const last = hunk.lines[hunk.lines.length - 1];
+                    if (last) last.content += NO_NEWLINE;
+                    continue;
+                }
+                // Editors often strip the single space of empty context lines
+                const type = next === '' ? ' ' : next[0];
+                if (type !== ' ' && type !== '-' && type !== '+') {
+                    i--;
+                    break;
+                }
+                hunk.lines.push({ type, content: next.slice(1) });
+                if (type !== '+') oldLeft--;
+                if (type !== '-') newLeft--;
+            }
+            current.hunks.push(hunk);
+        }
+    }
+
+    return patches.filter(patch => patch.oldPath !== null || patch.newPath !== null);
+};
+
+const fromPatchLines = (lines: string[]) => {
+    if (lines.length === 0) return '';
+    const text = lines.join('\n');
+    return text.endsWith(NO_NEWLINE) ? text.slice(0, -1) : `${text}\n`;
+};
+
+const matchesAt = (lines: string[], expected: string[], position: number) =>
+    expected.every((line, i) => lines[position + i] === line);
+
+// Nearest position to `expected`, at or after `minStart`, where `target` appears
+const findLines = (lines: string[], target: string[], expected: number, minStart: number) => {
+    const last = lines.length - target.length;
+    for (let distance = 0; distance <= lines.length; distance++) {
+        for (const position of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+            if (position >= minStart && position <= last && matchesAt(lines, target, position)) return position;
+        }
+    }
+    return -1;
+};
+
+// Applies each hunk where it matches best; hunks that match nowhere are left out and reported
+export const applyHunks = (content: string, hunks: PatchHunk[]) => {
+    let lines = toPatchLines(content);
+    const results: PatchHunkResult[] = [];
+    // Lines added minus lines removed by the hunks applied so far, and where the last one ended
+    let shift = 0;
+    let minStart = 0;
+
+    for (const hunk of hunks) {
+        const leading = hunk.lines.findIndex(line => line.type !== ' ');
+        const trailing = [...hunk.lines].reverse().findIndex(line => line.type !== ' ');
+        // "-5,3" starts at line 5; "-5,0" (nothing removed, no context) inserts after line 5
+        const removesLines = hunk.lines.some(line => line.type !== '+');
+        const expected = Math.max(0, removesLines ? hunk.oldStart - 1 : hunk.oldStart) + shift;
+        let applied: PatchHunkResult | null = null;
+
+        for (let fuzz = 0; fuzz <= MAX_FUZZ && !applied; fuzz++) {
+            const dropStart = Math.min(fuzz, Math.max(0, leading));
+            const dropEnd = Math.min(fuzz, Math.max(0, trailing));
+            if (fuzz > 0 && dropStart === 0 && dropEnd === 0) break;
+            const body = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+            const oldLines = body.filter(line => line.type !== '+').map(line => line.content);
+            const newLines = body.filter(line => line.type !== '-').map(line => line.content);
+
+            const position = oldLines.length === 0
+                ? Math.min(Math.max(expected + dropStart, minStart), lines.length)
+                : findLines(lines, oldLines, expected + dropStart, minStart);
+            if (position < 0) continue;
+
+            lines = [...lines.slice(0, position), ...newLines, ...lines.slice(position + oldLines.length)];
+            shift += newLines.length - oldLines.length;
+            minStart = position + newLines.length;
+            applied = { header: hunk.header, applied: true, offset: position - dropStart - expected, fuzz };
+        }
+
+        if (applied) {
+            results.push(applied);
+            continue;
+        }
+        const newLines = hunk.lines.filter(line => line.type !== '-').map(line => line.content);
+        const isApplied = newLines.length > 0 && findLines(lines, newLines, expected, 0) >= 0;
+        results.push({
+            header: hunk.header,
+            applied: false,
+            offset: 0,
+            fuzz: 0,
+            reason: isApplied ? 'The change is already in the file' : 'The lines it changes were not found',
+        });
+    }
+
+    return { content: fromPatchLines(lines), results };
+};
+
+const findFileByPath = (nodes: FileSystemNode[], path: string): File | null => {
+    const [name, ...rest] = path.split('/');
+    const node = nodes.find(n => n.name === name);
+    if (!node) return null;
+    if (rest.length === 0) return node.type === 'file' ? node : null;
+    return node.type === 'folder' ? findFileByPath(node.children, rest.join('/')) : null;
+};
+
+// Adds `file` at `path`, creating the folders on the way
+const addFileAtPath = (tree: FileSystemNode[], path: string, file: File): FileSystemNode[] => {
+    const folders = path.split('/').slice(0, -1);
+    let parentId: string | null = null;
+    let children = tree;
+    for (const name of folders) {
+        let folder = children.find((n): n is Folder => n.type === 'folder' && n.name === name);
+        if (!folder) {
+            folder = { id: generateId(), type: 'folder', name, children: [] };
+            tree = parentId ? addNodeToFolder(tree, parentId, folder) : [...tree, folder];
+        }
+        parentId = folder.id;
+        children = folder.children;
+    }
+    return parentId ? addNodeToFolder(tree, parentId, file) : [...tree, file];
+};
+
+const rejectAll = (patch: FilePatch, error: string): PatchFileResult => ({
+    oldPath: patch.oldPath,
+    path: patch.newPath,
+    hunks: patch.hunks.map(hunk => ({ header: hunk.header, applied: false, offset: 0, fuzz: 0 })),
+    error,
+});
+
+// Creations and deletions are all or nothing; changes to an existing file keep the hunks that applied
+export const applyFilePatch = (tree: FileSystemNode[], patch: FilePatch): { tree: FileSystemNode[]; result: PatchFileResult } => {
+    const { oldPath, newPath } = patch;
+    const source = oldPath ? findFileByPath(tree, oldPath) : null;
+    if (oldPath && !source) return { tree, result: rejectAll(patch, `${oldPath} does not exist`) };
+    if (newPath && newPath !== oldPath && findFileByPath(tree, newPath)) {
+        return { tree, result: rejectAll(patch, `${newPath} already exists`) };
+    }
+
+    const { content, results } = applyHunks(source?.content ?? '', patch.hunks);
+    const result: PatchFileResult = { oldPath, path: newPath, hunks: results };
+    const rejected = results.some(hunk => !hunk.applied);
+
+    if (!source) {
+        if (rejected) return { tree, result: { ...result, error: `${newPath} was not created` } };
+        const name = newPath!.split('/').pop()!;
+        const file: File = { id: generateId(), type: 'file', name, language: languageForName(name), content };
+        return { tree: addFileAtPath(tree, newPath!, file), result };
+    }
+    if (!newPath) {
+        if (rejected || content !== '') return { tree, result: { ...result, error: `${oldPath} was not deleted: its content differs` } };
+        return { tree: removeNodeFromTree(tree, source.id), result };
+    }
+
+    const updated: File = { ...source, content };
+    if (newPath === oldPath) {
+        return { tree: updateNodeInTree(tree, source.id, () => updated), result };
+    }
+    const name = newPath.split('/').pop()!;
+    return { tree: addFileAtPath(removeNodeFromTree(tree, source.id), newPath, { ...updated, name }), result };
+};
+
+interface PatchOptions {
+    savedFileSystem: FileSystemNode[];
+    getCommit: (commitId: string) => GitCommit | null;
+}
+
+// Unified diffs in and out: export the working changes or a commit, apply a patch to the working tree
+export const usePatches = ({ savedFileSystem, getCommit }: PatchOptions) => {
+    // Downloads the working tree's changes against HEAD; false when there are none
+    const exportWorkingDiff = useCallback((fileName: string, working: FileSystemNode[]) => {
+        const diff = formatTreeDiff(savedFileSystem, working);
+        if (diff) downloadFile(fileName, diff, 'text/x-diff');
+        return diff !== '';
+    }, [savedFileSystem]);
+
+    // A commit against its first parent
+    const exportCommitDiff = useCallback((fileName: string, commitId: string) => {
+        const commit = getCommit(commitId);
+        if (!commit) return false;
+        const parent = commit.parentId ? getCommit(commit.parentId) : null;
+        const diff = formatTreeDiff(parent?.tree ?? [], commit.tree);
+        if (diff) downloadFile(fileName, diff, 'text/x-diff');
+        return diff !== '';
+    }, [getCommit]);
+
+    // Returns the patched working tree and what happened to every file and hunk
+    const applyPatch = useCallback((text: string, working: FileSystemNode[]) => {
+        const patches = parsePatch(text);
+        if (patches.length === 0) throw new Error('No file changes found in the patch');
+
+        let tree = working;
+        const files = patches.map(patch => {
+            const applied = applyFilePatch(tree, patch);
+            tree = applied.tree;
+            return applied.result;
+        });
+        return { tree, files };
+    }, []);
+
+    return { exportWorkingDiff, exportCommitDiff, applyPatch };
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { FileSystemNode } from '../types';
+import { createSearchIndex, IndexedFile, SearchIndex } from '../searchIndex';
+
+export type IndexedFileUpdate = Pick<IndexedFile, 'id'> & Partial<IndexedFile>;
+
+// Shared worker, or the index used instead where there are no workers
+const pending = new Map<number, (fileIds: string[] | null) => void>();
+let worker: Worker | null = null;
+let localIndex: SearchIndex | null = null;
+let nextRequestId = 0;
+
+// Helper functions
+const getWorker = () => {
+    if (!worker) {
+        worker = new Worker(new URL('../search.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<{ id: number; fileIds: string[] | null }>) => {
+            pending.get(event.data.id)?.(event.data.fileIds);
+            pending.delete(event.data.id);
+        };
+    }
+    return worker;
+};
+
+const getLocalIndex = () => localIndex ?? (localIndex = createSearchIndex());
+
+const collectFiles = (nodes: FileSystemNode[], files: IndexedFile[] = []) => {
+    nodes.forEach(node => {
+        if (node.type === 'file') files.push({ id: node.id, name: node.name, content: node.content });
+        else collectFiles(node.children, files);
+    });
+    return files;
+};
+
+// Messages are handled in order, so a query sees every change posted before it
+export const resetSearchIndex = (nodes: FileSystemNode[]) => {
+    const files = collectFiles(nodes);
+    if (typeof Worker === 'undefined') getLocalIndex().reset(files);
+    else getWorker().postMessage({ type: 'reset', files });
+};
+
+// Adds files, or updates the given fields of indexed ones
+export const updateSearchIndex = (files: IndexedFileUpdate[]) => {
+    if (files.length === 0) return;
+    if (typeof Worker === 'undefined') files.forEach(getLocalIndex().update);
+    else getWorker().postMessage({ type: 'update', files });
+};
+
+export const indexNodes = (nodes: FileSystemNode[]) => updateSearchIndex(collectFiles(nodes));
+
+export const removeFromSearchIndex = (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (typeof Worker === 'undefined') ids.forEach(getLocalIndex().remove);
+    else getWorker().postMessage({ type: 'remove', ids });
+};
+
+// Ids of the files whose name or content may contain `term`; null when any file may
+export const querySearchIndex = (term: string, useRegex: boolean): Promise<Set<string> | null> => {
+    const toSet = (fileIds: string[] | null) => fileIds && new Set(fileIds);
+    if (typeof Worker === 'undefined') return Promise.resolve(toSet(getLocalIndex().candidates(term, useRegex)));
+    return new Promise(resolve => {
+        const id = nextRequestId++;
+        pending.set(id, fileIds => resolve(toSet(fileIds)));
+        getWorker().postMessage({ type: 'query', id, term, useRegex });
+    });
+};
+
+// Candidate files for a search, asked again whenever the tree changes; undefined until the
+// index has answered for this term. After an edit the answer for the same term is kept until
+// the new one arrives, so results do not blink while typing in the editor.
+export const useSearchCandidates = (term: string, useRegex: boolean, fileSystem: FileSystemNode[]) => {
+    const [answer, setAnswer] = useState<{ term: string; useRegex: boolean; candidates: Set<string> | null } | null>(null);
+
+    useEffect(() => {
+        if (!term) return;
+        let cancelled = false;
+        querySearchIndex(term, useRegex).then(candidates => {
+            if (!cancelled) setAnswer({ term, useRegex, candidates });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [term, useRegex, fileSystem]);
+
+    return answer && answer.term === term && answer.useRegex === useRegex ? answer.candidates : undefined;
+};
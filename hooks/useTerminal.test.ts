@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeCommandLine, parseCommandLine, expandHistory } from './useTerminal';
+
+// Tokens as plain strings, operators in brackets
+const tokens = (line: string) => tokenizeCommandLine(line).map(token => token.type === 'word' ? token.value : `[${token.value}]`);
+
+describe('tokenizeCommandLine', () => {
+    it('splits words on whitespace', () => {
+        expect(tokens('  ls   -la\tsrc ')).toEqual(['ls', '-la', 'src']);
+    });
+
+    it('keeps single quotes literal and reads escapes in double quotes', () => {
+        expect(tokens(`echo 'a \\n "b"' "c \\"d\\" \\\\"`)).toEqual(['echo', 'a \\n "b"', 'c "d" \\']);
+    });
+
+    it('joins quoted and unquoted parts of one word', () => {
+        expect(tokens(`echo pre'fix 'mid"dle "end ''`)).toEqual(['echo', 'prefix middle end', '']);
+    });
+
+    it('escapes single characters outside quotes', () => {
+        expect(tokens('touch my\\ file.txt a\\|b')).toEqual(['touch', 'my file.txt', 'a|b']);
+    });
+
+    it('reads operators with or without spaces around them', () => {
+        expect(tokens('a|b>c>>d&&e;f')).toEqual(['a', '[|]', 'b', '[>]', 'c', '[>>]', 'd', '[&&]', 'e', '[;]', 'f']);
+        expect(tokens(`echo '|' ">" \\;`)).toEqual(['echo', '|', '>', ';']);
+    });
+
+    it('rejects unterminated quotes', () => {
+        expect(() => tokenizeCommandLine(`echo 'oops`)).toThrow('unterminated quote');
+        expect(() => tokenizeCommandLine('echo "oops')).toThrow('unterminated quote');
+    });
+});
+
+describe('parseCommandLine', () => {
+    it('reads a single command', () => {
+        expect(parseCommandLine('ls src')).toEqual([{ stages: [{ argv: ['ls', 'src'] }], connector: null }]);
+        expect(parseCommandLine('ls src;')).toEqual([{ stages: [{ argv: ['ls', 'src'] }], connector: ';' }]);
+        expect(parseCommandLine('   ')).toEqual([]);
+    });
+
+    it('reads pipelines and redirections', () => {
+        expect(parseCommandLine('cat a.txt | grep foo > out.txt')).toEqual([{
+            stages: [
+                { argv: ['cat', 'a.txt'] },
+                { argv: ['grep', 'foo'], redirect: { path: 'out.txt', append: false } },
+            ],
+            connector: null,
+        }]);
+        expect(parseCommandLine('echo >> log.txt hi')).toEqual([{
+            stages: [{ argv: ['echo', 'hi'], redirect: { path: 'log.txt', append: true } }],
+            connector: null,
+        }]);
+    });
+
+    it('chains pipelines with && and ;', () => {
+        const chain = parseCommandLine('mkdir src && cd src; ls | wc');
+        expect(chain.map(pipeline => [pipeline.stages.map(stage => stage.argv.join(' ')), pipeline.connector])).toEqual([
+            [['mkdir src'], '&&'],
+            [['cd src'], ';'],
+            [['ls', 'wc'], null],
+        ]);
+    });
+
+    it('rejects operators without a command or a target', () => {
+        expect(() => parseCommandLine('| ls')).toThrow("syntax error near unexpected token '|'");
+        expect(() => parseCommandLine('ls &&')).toThrow("syntax error near unexpected token 'newline'");
+        expect(() => parseCommandLine('ls && ; pwd')).toThrow("syntax error near unexpected token ';'");
+        expect(() => parseCommandLine('echo hi >')).toThrow("syntax error near unexpected token 'newline'");
+        expect(() => parseCommandLine('echo hi > | cat')).toThrow("syntax error near unexpected token '|'");
+        expect(() => parseCommandLine('> out.txt')).toThrow("syntax error near unexpected token 'newline'");
+    });
+});
+
+describe('expandHistory', () => {
+    const history = ['ls', 'cat a.txt', 'git status', 'cat b.txt'];
+
+    it('expands !! to the last command', () => {
+        expect(expandHistory('!!', history)).toBe('cat b.txt');
+        expect(expandHistory('!! | grep x', history)).toBe('cat b.txt | grep x');
+    });
+
+    it('expands !n and !-n by position', () => {
+        expect(expandHistory('!1', history)).toBe('ls');
+        expect(expandHistory('!-2', history)).toBe('git status');
+    });
+
+    it('expands !prefix to the newest command starting with it', () => {
+        expect(expandHistory('!cat', history)).toBe('cat b.txt');
+        expect(expandHistory('echo x && !git', history)).toBe('echo x && git status');
+    });
+
+    it('leaves ! alone inside words and before = or quotes', () => {
+        expect(expandHistory('echo hi!there', history)).toBe('echo hi!there');
+        expect(expandHistory('test ! = x', history)).toBe('test ! = x');
+        expect(expandHistory(`echo !"x"`, history)).toBe(`echo !"x"`);
+    });
+
+    it('rejects events that are not in the history', () => {
+        expect(() => expandHistory('!9', history)).toThrow('!9: event not found');
+        expect(() => expandHistory('!nope', history)).toThrow('!nope: event not found');
+        expect(() => expandHistory('!!', [])).toThrow('!!: event not found');
+    });
+});
@@ -1,102 +1,409 @@
-import { useState, useCallback, useRef } from 'react';
-import { TerminalHistoryLine } from '../types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { TerminalHistoryLine, FileSystemNode, File } from '../types';
+import { validateFileName } from './useFileSystem';
+import { useRegisteredTerminalCommands } from './useTerminalCommands';
+
+// A non-zero exit code stops `&&` chains and pipelines; a plain string means success
+export interface TerminalCommandResult {
+    output: string;
+    exitCode: number;
+}
+
+// Everything a command gets besides its arguments. Built-in and registered commands share it.
+export interface TerminalCommandContext {
+    cwd: string;
+    fileSystem: FileSystemNode[];
+    // Only set when the command is on the right-hand side of a pipe
+    stdin?: string;
+    resolve: (path: string) => ResolvedPath;
+    changeDirectory: (path: string) => void;
+    fileOperations?: TerminalFileOperations;
+    openFile?: (file: File) => void;
+    // Prints a line right away, for long-running async commands that report progress
+    print: (content: string) => void;
+}
 
 export interface TerminalCommand {
     name: string;
     description: string;
     usage: string;
-    execute: (args: string[], fileSystem: any, onFileOpen?: (file: any) => void) => string;
+    execute: (args: string[], context: TerminalCommandContext) => string | TerminalCommandResult | Promise<string | TerminalCommandResult>;
+    // Suggestions for the argument being typed (`args` ends with the partial word).
+    // Without it, arguments complete as paths.
+    complete?: (args: string[], context: TerminalCommandContext) => string[];
 }
 
-export const useTerminal = (fileSystem: any, onFileOpen?: (file: any) => void) => {
-    const [history, setHistory] = useState<TerminalHistoryLine[]>([
-        { id: Date.now(), type: 'output', content: 'Welcome to Nexus Code Terminal!' },
-        { id: Date.now() + 1, type: 'output', content: "Type 'help' to see available commands." },
-    ]);
-    
-    const [currentDirectory, setCurrentDirectory] = useState<string>('/');
-    const commandHistory = useRef<string[]>([]);
-    const historyIndex = useRef<number>(-1);
+// File system mutations the terminal may perform; App wires these to useFileSystem
+// so open tabs stay in sync just like edits made from the explorer
+export interface TerminalFileOperations {
+    createNode: (parentId: string | null, type: 'file' | 'folder', name: string) => FileSystemNode | null;
+    deleteNode: (nodeId: string) => string[] | false;
+    moveNode: (nodeId: string, targetParentId: string | null) => boolean;
+    renameNode: (nodeId: string, newName: string) => boolean;
+    copyNode: (nodeId: string, targetParentId: string | null, newName: string) => FileSystemNode | null;
+    writeFile: (fileId: string, content: string) => void;
+    // The tree with every operation above already applied, before React re-renders
+    getFileSystem: () => FileSystemNode[];
+}
 
-    const addToHistory = useCallback((type: 'input' | 'output', content: string) => {
-        setHistory(prev => [...prev, { id: Date.now(), type, content }]);
-    }, []);
+// Helper functions
 
-    const findFileInTree = useCallback((nodes: any[], fileName: string): any => {
-        for (const node of nodes) {
-            if (node.type === 'file' && node.name === fileName) {
-                return node;
-            }
-            if (node.type === 'folder') {
-                const found = findFileInTree(node.children, fileName);
-                if (found) return found;
-            }
+// The root has no node of its own; commands treat it as a folder with a null id
+export interface TerminalFolder {
+    id: string | null;
+    type: 'folder';
+    name: string;
+    children: FileSystemNode[];
+}
+
+export interface ResolvedPath {
+    path: string;
+    name: string;
+    node: FileSystemNode | TerminalFolder | null;
+    parent: TerminalFolder | null;
+}
+
+// Turns an absolute or cwd-relative path into a normalized absolute path,
+// collapsing `.`, `..` and repeated slashes (`..` at the root stays at the root)
+export const normalizePath = (path: string, cwd: string): string => {
+    const segments: string[] = [];
+    const combined = path.startsWith('/') ? path : `${cwd}/${path}`;
+
+    for (const segment of combined.split('/')) {
+        if (!segment || segment === '.') continue;
+        if (segment === '..') {
+            segments.pop();
+        } else {
+            segments.push(segment);
         }
-        return null;
-    }, []);
+    }
 
-    const findFolderInTree = useCallback((nodes: any[], folderName: string): any => {
-        for (const node of nodes) {
-            if (node.type === 'folder' && node.name === folderName) {
-                return node;
-            }
-            if (node.type === 'folder') {
-                const found = findFolderInTree(node.children, folderName);
-                if (found) return found;
+    return '/' + segments.join('/');
+};
+
+export const resolvePath = (fileSystem: FileSystemNode[], path: string, cwd: string): ResolvedPath => {
+    const absolute = normalizePath(path, cwd);
+    const segments = absolute.split('/').filter(Boolean);
+    const root: TerminalFolder = { id: null, type: 'folder', name: '/', children: fileSystem };
+
+    let parent: TerminalFolder | null = null;
+    let node: FileSystemNode | TerminalFolder | null = root;
+
+    for (const segment of segments) {
+        parent = node?.type === 'folder' ? node : null;
+        node = parent?.children.find(child => child.name === segment) ?? null;
+    }
+
+    return {
+        path: absolute,
+        name: segments[segments.length - 1] ?? '/',
+        node,
+        parent,
+    };
+};
+
+const joinPath = (dir: string, name: string) => dir === '/' ? `/${name}` : `${dir}/${name}`;
+
+const isInside = (path: string, ancestor: string) => path === ancestor || path.startsWith(`${ancestor}/`);
+
+export const fail = (output: string): TerminalCommandResult => ({ output, exitCode: 1 });
+
+type ShellToken =
+    | { type: 'word'; value: string }
+    | { type: 'operator'; value: '|' | '>' | '>>' | '&&' | ';' };
+
+export interface ShellStage {
+    argv: string[];
+    redirect?: { path: string; append: boolean };
+}
+
+// A chain of pipelines; each runs after the previous one according to its connector
+export interface ShellPipeline {
+    stages: ShellStage[];
+    connector: '&&' | ';' | null;
+}
+
+// Splits a command line into words and operators. Single quotes are literal,
+// double quotes allow backslash escapes, and operators only count outside quotes.
+export const tokenizeCommandLine = (line: string): ShellToken[] => {
+    const tokens: ShellToken[] = [];
+    let word = '';
+    let inWord = false;
+    let i = 0;
+
+    const flushWord = () => {
+        if (inWord) tokens.push({ type: 'word', value: word });
+        word = '';
+        inWord = false;
+    };
+
+    while (i < line.length) {
+        const char = line[i];
+
+        if (char === "'" || char === '"') {
+            const end = char === "'" ? line.indexOf("'", i + 1) : -1;
+            if (char === "'") {
+                if (end === -1) throw new Error('unterminated quote');
+                word += line.slice(i + 1, end);
+                i = end + 1;
+            } else {
+                i++;
+                while (i < line.length && line[i] !== '"') {
+                    if (line[i] === '\\' && i + 1 < line.length) i++;
+                    word += line[i++];
+                }
+                if (i >= line.length) throw new Error('unterminated quote');
+                i++;
             }
+            inWord = true;
+        } else if (char === '\\' && i + 1 < line.length) {
+            word += line[i + 1];
+            inWord = true;
+            i += 2;
+        } else if (/\s/.test(char)) {
+            flushWord();
+            i++;
+        } else if (line.startsWith('&&', i) || line.startsWith('>>', i)) {
+            flushWord();
+            tokens.push({ type: 'operator', value: line.slice(i, i + 2) as '&&' | '>>' });
+            i += 2;
+        } else if (char === '|' || char === '>' || char === ';') {
+            flushWord();
+            tokens.push({ type: 'operator', value: char });
+            i++;
+        } else {
+            word += char;
+            inWord = true;
+            i++;
         }
-        return null;
-    }, []);
+    }
 
-    const getCurrentPathContents = useCallback(() => {
-        if (currentDirectory === '/') {
-            return fileSystem;
+    flushWord();
+    return tokens;
+};
+
+export const parseCommandLine = (line: string): ShellPipeline[] => {
+    const tokens = tokenizeCommandLine(line);
+    const pipelines: ShellPipeline[] = [];
+    let stages: ShellStage[] = [];
+    let stage: ShellStage = { argv: [] };
+
+    const unexpected = (token: string) => new Error(`syntax error near unexpected token '${token}'`);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'word') {
+            stage.argv.push(token.value);
+            continue;
         }
-        
-        const pathParts = currentDirectory.split('/').filter(Boolean);
-        let current = fileSystem;
-        
-        for (const part of pathParts) {
-            const found = findFolderInTree([current], part);
-            if (!found) return null;
-            current = found.children;
+
+        switch (token.value) {
+            case '>':
+            case '>>': {
+                const target = tokens[i + 1];
+                if (!target || target.type !== 'word') throw unexpected(target?.value ?? 'newline');
+                stage.redirect = { path: target.value, append: token.value === '>>' };
+                i++;
+                break;
+            }
+            case '|':
+                if (stage.argv.length === 0) throw unexpected('|');
+                stages.push(stage);
+                stage = { argv: [] };
+                break;
+            case '&&':
+            case ';':
+                if (stage.argv.length === 0) throw unexpected(token.value);
+                stages.push(stage);
+                pipelines.push({ stages, connector: token.value });
+                stages = [];
+                stage = { argv: [] };
+                break;
         }
-        
-        return current;
-    }, [currentDirectory, fileSystem, findFolderInTree]);
+    }
 
-    const commands: TerminalCommand[] = [
+    // A trailing `;` ends the line like a newline would; a trailing `&&` needs a command after it
+    if (stage.argv.length > 0) {
+        stages.push(stage);
+    } else if (stages.length > 0 || stage.redirect || pipelines[pipelines.length - 1]?.connector === '&&') {
+        throw unexpected('newline');
+    }
+    if (stages.length > 0) {
+        pipelines.push({ stages, connector: null });
+    }
+
+    return pipelines;
+};
+
+const commonPrefix = (values: string[]): string => {
+    if (values.length === 0) return '';
+    let prefix = values[0];
+    for (const value of values.slice(1)) {
+        while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+    }
+    return prefix;
+};
+
+const escapeWord = (value: string) => value.replace(/([\s'"\\|&;>])/g, '\\$1');
+
+export interface TerminalCompletion {
+    value: string;
+    candidates: string[];
+}
+
+// Bash-style history expansion: `!!` is the last command, `!n` the n-th (1-based),
+// `!-n` the n-th from the end and `!prefix` the newest command starting with prefix
+export const expandHistory = (line: string, commandHistory: string[]): string => {
+    return line.replace(/(^|[\s|&;])!(!|-?\d+|[^\s|&;!='"]+)/g, (match, lead: string, event: string) => {
+        let command: string | undefined;
+        if (event === '!') {
+            command = commandHistory[commandHistory.length - 1];
+        } else if (/^-?\d+$/.test(event)) {
+            const n = Number(event);
+            command = n < 0 ? commandHistory[commandHistory.length + n] : commandHistory[n - 1];
+        } else {
+            command = [...commandHistory].reverse().find(cmd => cmd.startsWith(event));
+        }
+        if (command === undefined) throw new Error(`!${event}: event not found`);
+        return lead + command;
+    });
+};
+
+export const DEFAULT_SCROLLBACK = 1000;
+const MAX_COMMAND_HISTORY = 500;
+
+export interface TerminalOptions {
+    // Persists scrollback, command history and cwd under this session's key
+    sessionId?: string;
+    // Maximum number of lines kept in the scrollback
+    scrollback?: number;
+}
+
+interface PersistedTerminalState {
+    history: TerminalHistoryLine[];
+    commandHistory: string[];
+    currentDirectory: string;
+}
+
+const terminalStorageKey = (sessionId: string) => `nexus-code-terminal-${sessionId}`;
+
+const loadTerminalState = (sessionId?: string): PersistedTerminalState | null => {
+    if (!sessionId) return null;
+    const saved = localStorage.getItem(terminalStorageKey(sessionId));
+    return saved ? JSON.parse(saved) : null;
+};
+
+export const clearTerminalState = (sessionId: string) => {
+    localStorage.removeItem(terminalStorageKey(sessionId));
+};
+
+export const useTerminal = (
+    fileSystem: any,
+    onFileOpen?: (file: any) => void,
+    fileOperations?: TerminalFileOperations,
+    { sessionId, scrollback = DEFAULT_SCROLLBACK }: TerminalOptions = {}
+) => {
+    const [restored] = useState(() => loadTerminalState(sessionId));
+
+    const [history, setHistory] = useState<TerminalHistoryLine[]>(() => restored
+        ? restored.history.slice(-scrollback)
+        : [
+            { id: Date.now(), type: 'output', content: 'Welcome to Nexus Code Terminal!' },
+            { id: Date.now() + 1, type: 'output', content: "Type 'help' to see available commands." },
+        ]);
+
+    // The saved cwd may have been deleted or renamed since the last session
+    const [initialDirectory] = useState(() => {
+        if (!restored) return '/';
+        const { node, path } = resolvePath(fileSystem, restored.currentDirectory, '/');
+        return node?.type === 'folder' ? path : '/';
+    });
+    const [currentDirectory, setCurrentDirectory] = useState<string>(initialDirectory);
+    // Commands in a chain run before React re-renders, so they read the latest tree and cwd
+    // from refs; with file operations, the tree comes from them, so `mkdir src/lib && touch
+    // src/lib/index.ts` sees the new folder
+    const fileSystemRef = useRef(fileSystem);
+    fileSystemRef.current = fileSystem;
+    const fileOperationsRef = useRef(fileOperations);
+    fileOperationsRef.current = fileOperations;
+    const currentFileSystem = (): FileSystemNode[] => fileOperationsRef.current?.getFileSystem() ?? fileSystemRef.current;
+    const cwdRef = useRef(initialDirectory);
+    const commandHistory = useRef<string[]>(restored?.commandHistory ?? []);
+    const historyIndex = useRef<number>(-1);
+    // Input and output lines are often added in the same millisecond; keep keys unique
+    const nextLineId = useRef<number>(Math.max(Date.now() + 2, ...history.map(line => line.id + 1)));
+    const scrollbackRef = useRef(scrollback);
+    scrollbackRef.current = scrollback;
+
+    const addToHistory = useCallback((type: 'input' | 'output', content: string) => {
+        const id = nextLineId.current++;
+        setHistory(prev => [...prev, { id, type, content }].slice(-scrollbackRef.current));
+    }, []);
+
+    // Shrinking the scrollback applies to the lines already on screen
+    useEffect(() => {
+        setHistory(prev => prev.length > scrollback ? prev.slice(-scrollback) : prev);
+    }, [scrollback]);
+
+    // Persist the session; every executed command also adds an input line, so this
+    // runs whenever commandHistory changes too
+    useEffect(() => {
+        if (!sessionId) return;
+        const state: PersistedTerminalState = {
+            history,
+            commandHistory: commandHistory.current,
+            currentDirectory,
+        };
+        localStorage.setItem(terminalStorageKey(sessionId), JSON.stringify(state));
+    }, [sessionId, history, currentDirectory]);
+
+    const resolve = useCallback((path: string) => {
+        return resolvePath(currentFileSystem(), path, cwdRef.current);
+    }, []);
+
+    const changeDirectory = useCallback((path: string) => {
+        cwdRef.current = path;
+        setCurrentDirectory(path);
+    }, []);
+
+    const registeredCommands = useRegisteredTerminalCommands();
+
+    const builtinCommands: TerminalCommand[] = [
         {
             name: 'help',
             description: 'Show available commands',
-            usage: 'help',
-            execute: () => {
+            usage: 'help [command]',
+            execute: (args) => {
+                if (args.length > 0) {
+                    const command = commands.find(cmd => cmd.name === args[0]);
+                    if (!command) return fail(`help: no help topics match '${args[0]}'`);
+                    return `${command.usage}\n  ${command.description}`;
+                }
+
+                const width = Math.max(...commands.map(cmd => cmd.usage.length));
+                const lines = commands.map(cmd => `${cmd.usage.padEnd(width)}  ${cmd.description}`);
                 return `Available commands:
-help - Show this help
-ls - List files and directories
-cd <directory> - Change directory
-pwd - Show current directory
-cat <file> - Show file contents
-touch <file> - Create new file
-mkdir <directory> - Create new directory
-rm <file/directory> - Remove file or directory
-clear - Clear terminal
-echo <text> - Print text
-find <pattern> - Search for files
-grep <pattern> <file> - Search in file content`;
-            }
+${lines.join('\n')}
+
+Paths may be absolute (/src/App.tsx) or relative (../README.md).
+Combine commands with | (pipe), > and >> (write to file), && and ;
+Quote arguments with spaces: echo "hello world" > 'notes.txt'`;
+            },
+            complete: (args) => commands.map(cmd => cmd.name).filter(name => name.startsWith(args[args.length - 1] ?? '')),
         },
         {
             name: 'ls',
             description: 'List files and directories',
-            usage: 'ls',
-            execute: () => {
-                const contents = getCurrentPathContents();
-                if (!contents) return 'Directory not found';
-                
-                if (contents.length === 0) return 'Directory is empty';
+            usage: 'ls [directory]',
+            execute: (args) => {
+                const target = args[0] ?? '.';
+                const { node } = resolve(target);
+                if (!node) return fail(`ls: cannot access '${target}': No such file or directory`);
+
+                if (node.type === 'file') return `📄 ${node.name}${node.gitStatus ? ` [${node.gitStatus}]` : ''}`;
+                if (node.children.length === 0) return 'Directory is empty';
                 
-                const items = contents.map((item: any) => {
+                const items = node.children.map((item: any) => {
                     const icon = item.type === 'folder' ? '📁' : '📄';
                     const status = item.gitStatus ? ` [${item.gitStatus}]` : '';
                     return `${icon} ${item.name}${status}`;
@@ -111,94 +418,239 @@ grep <pattern> <file> - Search in file content`;
             usage: 'cd <directory>',
             execute: (args) => {
                 if (args.length === 0) {
-                    setCurrentDirectory('/');
+                    changeDirectory('/');
                     return 'Changed to root directory';
                 }
                 
                 const target = args[0];
-                
-                if (target === '..') {
-                    if (currentDirectory === '/') return 'Already at root';
-                    const newPath = currentDirectory.split('/').slice(0, -1).join('/') || '/';
-                    setCurrentDirectory(newPath);
-                    return `Changed to ${newPath}`;
-                }
-                
-                if (target === '/') {
-                    setCurrentDirectory('/');
-                    return 'Changed to root directory';
-                }
-                
-                const contents = getCurrentPathContents();
-                if (!contents) return 'Directory not found';
-                
-                const targetFolder = findFolderInTree(contents, target);
-                if (!targetFolder) return `Directory '${target}' not found`;
-                
-                const newPath = currentDirectory === '/' ? `/${target}` : `${currentDirectory}/${target}`;
-                setCurrentDirectory(newPath);
-                return `Changed to ${newPath}`;
+                const { node, path } = resolve(target);
+                if (!node) return fail(`cd: ${target}: No such file or directory`);
+                if (node.type !== 'folder') return fail(`cd: ${target}: Not a directory`);
+
+                changeDirectory(path);
+                return path === '/' ? 'Changed to root directory' : `Changed to ${path}`;
             }
         },
         {
             name: 'pwd',
             description: 'Show current directory',
             usage: 'pwd',
-            execute: () => currentDirectory
+            execute: () => cwdRef.current
         },
         {
             name: 'cat',
             description: 'Show file contents',
-            usage: 'cat <file>',
-            execute: (args) => {
-                if (args.length === 0) return 'Usage: cat <file>';
-                
-                const fileName = args[0];
-                const contents = getCurrentPathContents();
-                if (!contents) return 'Directory not found';
-                
-                const file = findFileInTree(contents, fileName);
-                if (!file) return `File '${fileName}' not found`;
-                
-                if (file.type !== 'file') return `'${fileName}' is not a file`;
-                
-                return `=== ${fileName} ===\n${file.content}`;
+            usage: 'cat [file...]',
+            execute: (args, { stdin }) => {
+                if (args.length === 0) {
+                    return stdin !== undefined ? stdin : fail('Usage: cat <file...>');
+                }
+
+                const output: string[] = [];
+                for (const target of args) {
+                    const { node } = resolve(target);
+                    if (!node) return fail(`cat: ${target}: No such file or directory`);
+                    if (node.type !== 'file') return fail(`cat: ${target}: Is a directory`);
+                    output.push(node.content);
+                }
+                return output.join('\n');
             }
         },
         {
             name: 'touch',
             description: 'Create new file',
-            usage: 'touch <file>',
+            usage: 'touch <file...>',
             execute: (args) => {
-                if (args.length === 0) return 'Usage: touch <file>';
-                
-                const fileName = args[0];
-                // This would need to be integrated with the file system hook
-                return `File '${fileName}' would be created (use UI for now)`;
+                if (args.length === 0) return fail('Usage: touch <file...>');
+                if (!fileOperations) return fail('touch: file system is read-only');
+
+                const created = new Set<string>();
+                const output: string[] = [];
+                let exitCode = 0;
+                for (const target of args) {
+                    const { node, parent, name, path } = resolve(target);
+                    if (node || created.has(path)) continue;
+                    if (!parent) {
+                        exitCode = 1;
+                        output.push(`touch: cannot touch '${target}': No such file or directory`);
+                        continue;
+                    }
+                    if (!validateFileName(name)) {
+                        exitCode = 1;
+                        output.push(`touch: invalid file name '${name}'`);
+                        continue;
+                    }
+                    fileOperations.createNode(parent.id, 'file', name);
+                    created.add(path);
+                    output.push(`Created file '${path}'`);
+                }
+                return { output: output.join('\n'), exitCode };
             }
         },
         {
             name: 'mkdir',
             description: 'Create new directory',
-            usage: 'mkdir <directory>',
+            usage: 'mkdir <directory...>',
             execute: (args) => {
-                if (args.length === 0) return 'Usage: mkdir <directory>';
-                
-                const dirName = args[0];
-                // This would need to be integrated with the file system hook
-                return `Directory '${dirName}' would be created (use UI for now)`;
+                if (args.length === 0) return fail('Usage: mkdir <directory...>');
+                if (!fileOperations) return fail('mkdir: file system is read-only');
+
+                const created = new Set<string>();
+                const output: string[] = [];
+                let exitCode = 0;
+                for (const target of args) {
+                    const { node, parent, name, path } = resolve(target);
+                    if (node || created.has(path)) {
+                        exitCode = 1;
+                        output.push(`mkdir: cannot create directory '${target}': File exists`);
+                        continue;
+                    }
+                    if (!parent) {
+                        exitCode = 1;
+                        output.push(`mkdir: cannot create directory '${target}': No such file or directory`);
+                        continue;
+                    }
+                    if (!validateFileName(name)) {
+                        exitCode = 1;
+                        output.push(`mkdir: invalid directory name '${name}'`);
+                        continue;
+                    }
+                    fileOperations.createNode(parent.id, 'folder', name);
+                    created.add(path);
+                    output.push(`Created directory '${path}'`);
+                }
+                return { output: output.join('\n'), exitCode };
             }
         },
         {
             name: 'rm',
             description: 'Remove file or directory',
-            usage: 'rm <file/directory>',
+            usage: 'rm [-r] <file/directory...>',
             execute: (args) => {
-                if (args.length === 0) return 'Usage: rm <file/directory>';
-                
-                const target = args[0];
-                // This would need to be integrated with the file system hook
-                return `'${target}' would be removed (use UI for now)`;
+                const recursive = args.includes('-r') || args.includes('-rf');
+                const targets = args.filter(arg => arg !== '-r' && arg !== '-rf');
+                if (targets.length === 0) return fail('Usage: rm [-r] <file/directory...>');
+                if (!fileOperations) return fail('rm: file system is read-only');
+
+                const output: string[] = [];
+                let exitCode = 0;
+                for (const target of targets) {
+                    const { node, path } = resolve(target);
+                    if (!node) {
+                        exitCode = 1;
+                        output.push(`rm: cannot remove '${target}': No such file or directory`);
+                    } else if (!node.id) {
+                        exitCode = 1;
+                        output.push(`rm: refusing to remove '/'`);
+                    } else if (node.type === 'folder' && !recursive) {
+                        exitCode = 1;
+                        output.push(`rm: cannot remove '${target}': Is a directory (use rm -r)`);
+                    } else {
+                        fileOperations.deleteNode(node.id);
+                        output.push(`Removed '${path}'`);
+                        if (isInside(cwdRef.current, path)) {
+                            changeDirectory('/');
+                        }
+                    }
+                }
+                return { output: output.join('\n'), exitCode };
+            }
+        },
+        {
+            name: 'mv',
+            description: 'Move or rename a file or directory',
+            usage: 'mv <source> <destination>',
+            execute: (args) => {
+                if (args.length < 2) return fail('Usage: mv <source> <destination>');
+                if (!fileOperations) return fail('mv: file system is read-only');
+
+                const [source, destination] = args;
+                const from = resolve(source);
+                if (!from.node) return fail(`mv: cannot stat '${source}': No such file or directory`);
+                if (!from.node.id || !from.parent) return fail(`mv: cannot move '/'`);
+
+                // `mv a dir` moves into dir keeping the name; otherwise the last segment is the new name
+                let to = resolve(destination);
+                let targetFolder: TerminalFolder | null = to.parent;
+                let newName = to.name;
+                if (to.node?.type === 'folder') {
+                    targetFolder = to.node;
+                    newName = from.node.name;
+                    to = resolve(joinPath(to.path, newName));
+                }
+
+                if (!targetFolder) return fail(`mv: cannot move '${source}' to '${destination}': No such file or directory`);
+                if (isInside(to.path, from.path)) return fail(`mv: cannot move '${source}' to a subdirectory of itself`);
+                if (to.node) return fail(`mv: cannot overwrite '${to.path}': File exists`);
+                if (!validateFileName(newName)) return fail(`mv: invalid name '${newName}'`);
+
+                if (targetFolder.id !== from.parent.id && !fileOperations.moveNode(from.node.id, targetFolder.id)) {
+                    return fail(`mv: cannot move '${source}' to '${destination}'`);
+                }
+                if (newName !== from.node.name && !fileOperations.renameNode(from.node.id, newName)) {
+                    return fail(`mv: cannot rename '${source}' to '${newName}'`);
+                }
+                if (isInside(cwdRef.current, from.path)) {
+                    changeDirectory(to.path + cwdRef.current.slice(from.path.length));
+                }
+                return `Moved '${from.path}' to '${to.path}'`;
+            }
+        },
+        {
+            name: 'cp',
+            description: 'Copy a file or directory',
+            usage: 'cp [-r] <source> <destination>',
+            execute: (args) => {
+                const recursive = args.includes('-r');
+                const paths = args.filter(arg => arg !== '-r');
+                if (paths.length < 2) return fail('Usage: cp [-r] <source> <destination>');
+                if (!fileOperations) return fail('cp: file system is read-only');
+
+                const [source, destination] = paths;
+                const from = resolve(source);
+                if (!from.node) return fail(`cp: cannot stat '${source}': No such file or directory`);
+                if (!from.node.id) return fail(`cp: cannot copy '/'`);
+                if (from.node.type === 'folder' && !recursive) return fail(`cp: -r not specified; omitting directory '${source}'`);
+
+                let to = resolve(destination);
+                let targetFolder: TerminalFolder | null = to.parent;
+                let newName = to.name;
+                if (to.node?.type === 'folder') {
+                    targetFolder = to.node;
+                    newName = from.node.name;
+                    to = resolve(joinPath(to.path, newName));
+                }
+
+                if (!targetFolder) return fail(`cp: cannot create '${destination}': No such file or directory`);
+                if (isInside(to.path, from.path)) return fail(`cp: cannot copy '${source}' into itself`);
+                if (to.node) return fail(`cp: cannot overwrite '${to.path}': File exists`);
+                if (!validateFileName(newName)) return fail(`cp: invalid name '${newName}'`);
+
+                if (!fileOperations.copyNode(from.node.id, targetFolder.id, newName)) return fail(`cp: cannot copy '${source}' to '${destination}'`);
+                return `Copied '${from.path}' to '${to.path}'`;
+            }
+        },
+        {
+            name: 'rename',
+            description: 'Rename a file or directory',
+            usage: 'rename <path> <new-name>',
+            execute: (args) => {
+                if (args.length < 2) return fail('Usage: rename <path> <new-name>');
+                if (!fileOperations) return fail('rename: file system is read-only');
+
+                const [target, newName] = args;
+                const { node, parent, path } = resolve(target);
+                if (!node) return fail(`rename: '${target}': No such file or directory`);
+                if (!node.id || !parent) return fail(`rename: cannot rename '/'`);
+                if (!validateFileName(newName)) return fail(`rename: invalid name '${newName}'`);
+                if (parent.children.some(child => child.name === newName)) return fail(`rename: '${newName}' already exists`);
+
+                fileOperations.renameNode(node.id, newName);
+                const renamedPath = joinPath(parent.id ? path.slice(0, path.lastIndexOf('/')) : '/', newName);
+                if (isInside(cwdRef.current, path)) {
+                    changeDirectory(renamedPath + cwdRef.current.slice(path.length));
+                }
+                return `Renamed '${path}' to '${renamedPath}'`;
             }
         },
         {
@@ -210,6 +662,28 @@ grep <pattern> <file> - Search in file content`;
                 return '';
             }
         },
+        {
+            name: 'history',
+            description: 'List previous commands; re-run them with !n or !!',
+            usage: 'history [count] | history -c',
+            execute: (args) => {
+                if (args[0] === '-c') {
+                    commandHistory.current = [];
+                    historyIndex.current = -1;
+                    return '';
+                }
+
+                const count = args[0] !== undefined ? Number(args[0]) : commandHistory.current.length;
+                if (!Number.isInteger(count) || count < 0) return fail(`history: ${args[0]}: numeric argument required`);
+
+                const start = Math.max(0, commandHistory.current.length - count);
+                const width = String(commandHistory.current.length).length;
+                return commandHistory.current
+                    .slice(start)
+                    .map((command, i) => `${String(start + i + 1).padStart(width + 2)}  ${command}`)
+                    .join('\n');
+            }
+        },
         {
             name: 'echo',
             description: 'Print text',
@@ -219,16 +693,20 @@ grep <pattern> <file> - Search in file content`;
         {
             name: 'find',
             description: 'Search for files',
-            usage: 'find <pattern>',
+            usage: 'find <pattern> [directory]',
             execute: (args) => {
-                if (args.length === 0) return 'Usage: find <pattern>';
+                if (args.length === 0) return fail('Usage: find <pattern> [directory]');
                 
                 const pattern = args[0].toLowerCase();
+                const { node: start, path: startPath } = resolve(args[1] ?? '.');
+                if (!start) return fail(`find: '${args[1]}': No such file or directory`);
+                if (start.type !== 'folder') return fail(`find: '${args[1]}': Not a directory`);
+
                 const results: string[] = [];
                 
-                const searchRecursive = (nodes: any[], path: string = '') => {
+                const searchRecursive = (nodes: FileSystemNode[], path: string) => {
                     for (const node of nodes) {
-                        const currentPath = path ? `${path}/${node.name}` : node.name;
+                        const currentPath = joinPath(path, node.name);
                         if (node.name.toLowerCase().includes(pattern)) {
                             const icon = node.type === 'folder' ? '📁' : '📄';
                             results.push(`${icon} ${currentPath}`);
@@ -239,68 +717,172 @@ grep <pattern> <file> - Search in file content`;
                     }
                 };
                 
-                searchRecursive(fileSystem);
+                searchRecursive(start.children, startPath);
                 
-                if (results.length === 0) return `No files found matching '${pattern}'`;
+                if (results.length === 0) return fail(`No files found matching '${pattern}'`);
                 return results.join('\n');
             }
         },
         {
             name: 'grep',
             description: 'Search in file content',
-            usage: 'grep <pattern> <file>',
-            execute: (args) => {
-                if (args.length < 2) return 'Usage: grep <pattern> <file>';
+            usage: 'grep <pattern> [file...]',
+            execute: (args, { stdin }) => {
+                if (args.length === 0 || (args.length === 1 && stdin === undefined)) {
+                    return fail('Usage: grep <pattern> [file...]');
+                }
                 
                 const pattern = args[0].toLowerCase();
-                const fileName = args[1];
-                
-                const file = findFileInTree(fileSystem, fileName);
-                if (!file || file.type !== 'file') return `File '${fileName}' not found`;
-                
-                const lines = file.content.split('\n');
                 const matches: string[] = [];
+                const matchLines = (content: string, prefix: string) => {
+                    content.split('\n').forEach((line: string, index: number) => {
+                        if (line.toLowerCase().includes(pattern)) {
+                            matches.push(prefix ? `${prefix}:${index + 1}: ${line}` : line);
+                        }
+                    });
+                };
+
+                if (args.length === 1) {
+                    matchLines(stdin ?? '', '');
+                    return matches.length > 0 ? matches.join('\n') : fail('');
+                }
+
+                for (const fileName of args.slice(1)) {
+                    const { node: file } = resolve(fileName);
+                    if (!file) return fail(`grep: ${fileName}: No such file or directory`);
+                    if (file.type !== 'file') return fail(`grep: ${fileName}: Is a directory`);
+                    matchLines(file.content, fileName);
+                }
                 
-                lines.forEach((line: string, index: number) => {
-                    if (line.toLowerCase().includes(pattern)) {
-                        matches.push(`${fileName}:${index + 1}: ${line}`);
-                    }
-                });
-                
-                if (matches.length === 0) return `No matches found in '${fileName}'`;
+                if (matches.length === 0) return fail(`No matches found in '${args.slice(1).join("', '")}'`);
                 return matches.join('\n');
             }
         }
     ];
 
-    const executeCommand = useCallback((commandLine: string) => {
-        const trimmed = commandLine.trim();
-        if (!trimmed) return;
-        
-        addToHistory('input', trimmed);
-        commandHistory.current.push(trimmed);
-        historyIndex.current = -1;
-        
-        const parts = trimmed.split(' ');
-        const commandName = parts[0];
-        const args = parts.slice(1);
-        
+    // Built-ins win over registered commands with the same name
+    const commands: TerminalCommand[] = [
+        ...builtinCommands,
+        ...registeredCommands.filter(cmd => !builtinCommands.some(builtin => builtin.name === cmd.name)),
+    ];
+
+    const createContext = (stdin?: string): TerminalCommandContext => ({
+        cwd: cwdRef.current,
+        fileSystem: currentFileSystem(),
+        stdin,
+        resolve,
+        changeDirectory,
+        fileOperations,
+        openFile: onFileOpen,
+        print: content => addToHistory('output', content),
+    });
+
+    // Writes a stage's stdout into a virtual file for `>` / `>>`, creating it if needed
+    const writeRedirect = (redirect: NonNullable<ShellStage['redirect']>, output: string): TerminalCommandResult | null => {
+        if (!fileOperations) return fail('file system is read-only');
+
+        const { node, parent, name, path } = resolve(redirect.path);
+        if (node?.type === 'folder') return fail(`${redirect.path}: Is a directory`);
+
+        if (node) {
+            const separator = node.content && !node.content.endsWith('\n') ? '\n' : '';
+            fileOperations.writeFile(node.id, redirect.append ? node.content + separator + output : output);
+            return null;
+        }
+
+        if (!parent) return fail(`${redirect.path}: No such file or directory`);
+        if (!validateFileName(name)) return fail(`${redirect.path}: invalid file name`);
+        const created = fileOperations.createNode(parent.id, 'file', name);
+        if (!created) return fail(`${path}: could not create file`);
+        fileOperations.writeFile(created.id, output);
+        return null;
+    };
+
+    const runStage = async (stage: ShellStage, stdin?: string): Promise<TerminalCommandResult> => {
+        const [commandName, ...args] = stage.argv;
         const command = commands.find(cmd => cmd.name === commandName);
-        
+
         if (!command) {
-            addToHistory('output', `Command not found: ${commandName}. Type 'help' for available commands.`);
-            return;
+            return { output: `Command not found: ${commandName}. Type 'help' for available commands.`, exitCode: 127 };
+        }
+
+        try {
+            const result = await command.execute(args, createContext(stdin));
+            return typeof result === 'string' ? { output: result, exitCode: 0 } : result;
+        } catch (error) {
+            return fail(`Error executing command: ${error}`);
+        }
+    };
+
+    // Runs the stages of a pipeline left to right, feeding each stdout into the next stdin.
+    // Failed stages print straight to the terminal (like stderr) instead of being piped or redirected.
+    const runPipeline = async (stages: ShellStage[]): Promise<number> => {
+        let stdin: string | undefined;
+
+        for (let i = 0; i < stages.length; i++) {
+            const stage = stages[i];
+            const isLast = i === stages.length - 1;
+            const result = await runStage(stage, stdin);
+
+            if (result.exitCode !== 0) {
+                if (result.output) addToHistory('output', result.output);
+                return result.exitCode;
+            }
+
+            if (stage.redirect) {
+                const error = writeRedirect(stage.redirect, result.output);
+                if (error) {
+                    addToHistory('output', error.output);
+                    return error.exitCode;
+                }
+                stdin = '';
+            } else if (isLast) {
+                if (result.output !== '') addToHistory('output', result.output);
+            } else {
+                stdin = result.output;
+            }
         }
-        
+
+        return 0;
+    };
+
+    const executeCommand = useCallback(async (commandLine: string) => {
+        let trimmed = commandLine.trim();
+        if (!trimmed) return;
+
+        historyIndex.current = -1;
         try {
-            const result = command.execute(args, fileSystem, onFileOpen);
-            if (result !== '') {
-                addToHistory('output', result);
+            const expanded = expandHistory(trimmed, commandHistory.current);
+            if (expanded !== trimmed) {
+                // Show what actually runs, as bash does
+                addToHistory('input', trimmed);
+                addToHistory('output', expanded);
+                trimmed = expanded;
+            } else {
+                addToHistory('input', trimmed);
             }
         } catch (error) {
-            addToHistory('output', `Error executing command: ${error}`);
+            addToHistory('input', trimmed);
+            addToHistory('output', `nexus-code: ${(error as Error).message}`);
+            return;
         }
-    }, [commands, fileSystem, onFileOpen, addToHistory]);
+        commandHistory.current = [...commandHistory.current, trimmed].slice(-MAX_COMMAND_HISTORY);
+
+        let pipelines: ShellPipeline[];
+        try {
+            pipelines = parseCommandLine(trimmed);
+        } catch (error) {
+            addToHistory('output', `nexus-code: ${(error as Error).message}`);
+            return;
+        }
+
+        let exitCode = 0;
+        for (let i = 0; i < pipelines.length; i++) {
+            const previous = pipelines[i - 1];
+            if (previous?.connector === '&&' && exitCode !== 0) break;
+            exitCode = await runPipeline(pipelines[i].stages);
+        }
+    }, [commands, onFileOpen, addToHistory]);
 
     const navigateHistory = useCallback((direction: 'up' | 'down') => {
         if (direction === 'up' && historyIndex.current < commandHistory.current.length - 1) {
@@ -316,11 +898,72 @@ grep <pattern> <file> - Search in file content`;
         return null;
     }, []);
 
+    // Ctrl+R: newest command containing `query`, searching backwards from `before`
+    const searchHistory = useCallback((query: string, before: number = commandHistory.current.length) => {
+        for (let i = Math.min(before, commandHistory.current.length) - 1; i >= 0; i--) {
+            if (commandHistory.current[i].includes(query)) {
+                return { command: commandHistory.current[i], index: i };
+            }
+        }
+        return null;
+    }, []);
+
+    // Completes the last word of the input: command names in command position
+    // (start of line or after |, && and ;), paths relative to the cwd everywhere else
+    const completeInput = useCallback((input: string): TerminalCompletion => {
+        const word = input.match(/(?:\\.|[^\s|&;>])*$/)?.[0] ?? '';
+        const before = input.slice(0, input.length - word.length);
+        const isCommandPosition = /(^|[|&;])\s*$/.test(before);
+        const unescaped = word.replace(/\\(.)/g, '$1');
+
+        // Words of the current pipeline stage, used for commands with their own completion
+        const stageWords = before.split(/[|&;]/).pop()!.trim().split(/\s+/).filter(Boolean);
+        const stageCommand = commands.find(cmd => cmd.name === stageWords[0]);
+
+        let candidates: { name: string; completion: string }[];
+        let base = '';
+        if (isCommandPosition && !unescaped.includes('/')) {
+            candidates = commands
+                .filter(cmd => cmd.name.startsWith(unescaped))
+                .map(cmd => ({ name: cmd.name, completion: `${cmd.name} ` }));
+        } else if (stageCommand?.complete) {
+            candidates = stageCommand.complete([...stageWords.slice(1), unescaped], createContext())
+                .filter(name => name.startsWith(unescaped))
+                .map(name => ({ name, completion: name.endsWith('/') ? name : `${name} ` }));
+        } else {
+            const slash = unescaped.lastIndexOf('/');
+            base = unescaped.slice(0, slash + 1);
+            const prefix = unescaped.slice(slash + 1);
+            const { node } = resolve(base || '.');
+            const children = node?.type === 'folder' ? node.children : [];
+            candidates = children
+                .filter(child => child.name.startsWith(prefix))
+                .map(child => child.type === 'folder'
+                    ? { name: `${child.name}/`, completion: `${child.name}/` }
+                    : { name: child.name, completion: `${child.name} ` });
+        }
+
+        if (candidates.length === 0) return { value: input, candidates: [] };
+        if (candidates.length === 1) {
+            const { completion } = candidates[0];
+            const trailing = completion.endsWith(' ') ? ' ' : '';
+            return { value: before + escapeWord(base + completion.trimEnd()) + trailing, candidates: [] };
+        }
+
+        const shared = commonPrefix(candidates.map(c => base + c.name));
+        if (shared.length > unescaped.length) {
+            return { value: before + escapeWord(shared), candidates: [] };
+        }
+        return { value: input, candidates: candidates.map(c => c.name).sort() };
+    }, [commands, resolve]);
+
     return {
         history,
         currentDirectory,
         executeCommand,
         navigateHistory,
+        searchHistory,
+        completeInput,
         addToHistory
     };
 };
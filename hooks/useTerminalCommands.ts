@@ -0,0 +1,49 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { TerminalCommand } from './useTerminal';
+
+// Commands contributed by other subsystems (Git view, extensions, debug...).
+// The registry lives at module level so anything can register without
+// threading props through App; useTerminal picks the changes up on its own.
+const registeredCommands = new Map<string, TerminalCommand>();
+const listeners = new Set<() => void>();
+let snapshot: TerminalCommand[] = [];
+
+const notify = () => {
+    snapshot = [...registeredCommands.values()];
+    listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Registers a command and returns a function that removes it again.
+// Registering an existing name replaces the previous command.
+export const registerTerminalCommand = (command: TerminalCommand) => {
+    registeredCommands.set(command.name, command);
+    notify();
+
+    return () => {
+        if (registeredCommands.get(command.name) === command) {
+            registeredCommands.delete(command.name);
+            notify();
+        }
+    };
+};
+
+export const getRegisteredTerminalCommands = (): TerminalCommand[] => snapshot;
+
+export const useRegisteredTerminalCommands = (): TerminalCommand[] => {
+    return useSyncExternalStore(subscribe, getRegisteredTerminalCommands);
+};
+
+// Keeps `commands` registered while the calling component or hook is mounted
+export const useTerminalCommands = (commands: TerminalCommand[]) => {
+    useEffect(() => {
+        const unregister = commands.map(registerTerminalCommand);
+        return () => unregister.forEach(fn => fn());
+    }, [commands]);
+};
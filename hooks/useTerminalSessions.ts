@@ -0,0 +1,177 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { DEFAULT_SCROLLBACK, clearTerminalState } from './useTerminal';
+
+export interface TerminalSession {
+    id: string;
+    name: string;
+}
+
+interface PersistedTerminalSessions {
+    sessions: TerminalSession[];
+    activeSessionId: string;
+    panes: string[];
+    panelHeight: number;
+    scrollback: number;
+}
+
+const DEFAULT_PANEL_HEIGHT = 256;
+const MIN_PANEL_HEIGHT = 96;
+const MIN_SCROLLBACK = 100;
+
+let nextSessionNumber = 1;
+const createSession = (): TerminalSession => {
+    const number = nextSessionNumber++;
+    return { id: `terminal-${Date.now()}-${number}`, name: `Terminal ${number}` };
+};
+
+const loadSessions = (): PersistedTerminalSessions => {
+    const saved = localStorage.getItem('nexus-code-terminal-sessions');
+    if (saved) {
+        const state: PersistedTerminalSessions = JSON.parse(saved);
+        if (state.sessions.length > 0) {
+            // Keep numbering new terminals after the restored ones
+            const numbers = state.sessions.map(s => Number(s.id.split('-').pop()) || 0);
+            nextSessionNumber = Math.max(nextSessionNumber, ...numbers) + 1;
+            return state;
+        }
+    }
+
+    const session = createSession();
+    return {
+        sessions: [session],
+        activeSessionId: session.id,
+        panes: [session.id],
+        panelHeight: DEFAULT_PANEL_HEIGHT,
+        scrollback: DEFAULT_SCROLLBACK,
+    };
+};
+
+// Tracks which terminals exist, which ones are visible and the panel size.
+// Each session's history and cwd live in its own useTerminal instance.
+export const useTerminalSessions = () => {
+    const [restored] = useState(loadSessions);
+    const [sessions, setSessions] = useState<TerminalSession[]>(restored.sessions);
+    const [activeSessionId, setActiveSessionId] = useState<string>(restored.activeSessionId);
+    // Sessions shown side by side; a single entry means the panel is not split
+    const [panes, setPanes] = useState<string[]>(restored.panes);
+    const [panelHeight, setPanelHeightState] = useState(restored.panelHeight);
+    // Lines of scrollback each terminal keeps (and persists)
+    const [scrollback, setScrollbackState] = useState(restored.scrollback ?? DEFAULT_SCROLLBACK);
+
+    // Persist the layout; each session's scrollback and cwd are saved by its own terminal
+    useEffect(() => {
+        const state: PersistedTerminalSessions = { sessions, activeSessionId, panes, panelHeight, scrollback };
+        localStorage.setItem('nexus-code-terminal-sessions', JSON.stringify(state));
+    }, [sessions, activeSessionId, panes, panelHeight, scrollback]);
+
+    // Each mounted session registers its printer so the app can write to the active terminal
+    const printers = useRef<Record<string, (content: string) => void>>({});
+
+    const newSession = useCallback(() => {
+        const session = createSession();
+        setSessions(prev => [...prev, session]);
+        setPanes(prev => prev.length > 1
+            ? prev.map(id => id === activeSessionId ? session.id : id)
+            : [session.id]);
+        setActiveSessionId(session.id);
+        return session;
+    }, [activeSessionId]);
+
+    const activateSession = useCallback((sessionId: string) => {
+        setActiveSessionId(sessionId);
+        // Showing a hidden session replaces the focused pane
+        setPanes(prev => prev.includes(sessionId)
+            ? prev
+            : prev.map(id => id === activeSessionId ? sessionId : id));
+    }, [activeSessionId]);
+
+    const closeSession = useCallback((sessionId: string) => {
+        const index = sessions.findIndex(s => s.id === sessionId);
+        if (index === -1) return;
+
+        const remaining = sessions.filter(s => s.id !== sessionId);
+        if (remaining.length === 0) {
+            const session = createSession();
+            setSessions([session]);
+            setPanes([session.id]);
+            setActiveSessionId(session.id);
+            return;
+        }
+
+        const fallback = remaining[Math.max(0, index - 1)].id;
+        setSessions(remaining);
+        setPanes(prev => {
+            const next = prev.filter(id => id !== sessionId);
+            return next.length > 0 ? next : [fallback];
+        });
+        if (activeSessionId === sessionId) {
+            setActiveSessionId(panes.find(id => id !== sessionId) ?? fallback);
+        }
+        delete printers.current[sessionId];
+        clearTerminalState(sessionId);
+    }, [sessions, panes, activeSessionId]);
+
+    const renameSession = useCallback((sessionId: string, name: string) => {
+        if (!name.trim()) return;
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, name: name.trim() } : s));
+    }, []);
+
+    const toggleSplit = useCallback(() => {
+        if (panes.length > 1) {
+            setPanes([activeSessionId]);
+            return;
+        }
+
+        // Split next to an existing hidden session, or open a fresh one
+        const other = sessions.find(s => s.id !== activeSessionId);
+        if (other) {
+            setPanes([activeSessionId, other.id]);
+        } else {
+            const session = createSession();
+            setSessions(prev => [...prev, session]);
+            setPanes([activeSessionId, session.id]);
+            setActiveSessionId(session.id);
+        }
+    }, [panes, sessions, activeSessionId]);
+
+    const setPanelHeight = useCallback((height: number) => {
+        const maxHeight = Math.max(MIN_PANEL_HEIGHT, window.innerHeight * 0.8);
+        setPanelHeightState(Math.round(Math.min(maxHeight, Math.max(MIN_PANEL_HEIGHT, height))));
+    }, []);
+
+    const setScrollback = useCallback((lines: number) => {
+        if (!Number.isFinite(lines)) return;
+        setScrollbackState(Math.max(MIN_SCROLLBACK, Math.round(lines)));
+    }, []);
+
+    const registerPrinter = useCallback((sessionId: string, print: (content: string) => void) => {
+        printers.current[sessionId] = print;
+        return () => {
+            if (printers.current[sessionId] === print) {
+                delete printers.current[sessionId];
+            }
+        };
+    }, []);
+
+    const printToActiveSession = useCallback((content: string) => {
+        printers.current[activeSessionId]?.(content);
+    }, [activeSessionId]);
+
+    return {
+        sessions,
+        activeSessionId,
+        panes,
+        isSplit: panes.length > 1,
+        panelHeight,
+        scrollback,
+        newSession,
+        activateSession,
+        closeSession,
+        renameSession,
+        toggleSplit,
+        setPanelHeight,
+        setScrollback,
+        registerPrinter,
+        printToActiveSession,
+    };
+};
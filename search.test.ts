@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchRegex, findMatches, getReplacement, applyReplacements, groupMatchLines, createPathFilter, SearchOptions } from './search';
+
+// Replaces every match of `term` in `content`, as "Replace All" does
+const replaceAll = (content: string, term: string, template: string, options: SearchOptions) => {
+  const matches = findMatches(content, buildSearchRegex(term, options)!);
+  return applyReplacements(content, matches, matches.map(match => getReplacement(content, match, template, options)));
+};
+
+describe('buildSearchRegex', () => {
+  it('matches plain terms literally', () => {
+    expect(findMatches('call(a.b) or callXa_b', buildSearchRegex('(a.b)', {})!).map(m => m.start)).toEqual([4]);
+  });
+
+  it('returns null for empty terms and invalid regexes', () => {
+    expect(buildSearchRegex('', {})).toBeNull();
+    expect(buildSearchRegex('(', { useRegex: true })).toBeNull();
+  });
+});
+
+describe('whole word', () => {
+  it('only matches the term between non-word characters', () => {
+    const regex = buildSearchRegex('id', { wholeWord: true })!;
+    expect(findMatches('id idx _id id. (id)', regex).map(m => m.start)).toEqual([0, 11, 16]);
+  });
+
+  it('applies to every alternative of a regex', () => {
+    const regex = buildSearchRegex('a|b', { useRegex: true, wholeWord: true })!;
+    expect(findMatches('a ab b', regex).map(m => m.start)).toEqual([0, 5]);
+  });
+});
+
+describe('findMatches', () => {
+  it('reports the line of each match and skips empty matches', () => {
+    const matches = findMatches('a\nfoo\nbar foo', buildSearchRegex('foo|^', { useRegex: true })!);
+    expect(matches.map(({ start, line, lineStart }) => ({ start, line, lineStart }))).toEqual([
+      { start: 2, line: 2, lineStart: 2 },
+      { start: 10, line: 3, lineStart: 6 },
+    ]);
+  });
+});
+
+describe('getReplacement', () => {
+  const regex = { useRegex: true };
+
+  it('expands numbered and named groups', () => {
+    expect(replaceAll('key = value', '(\\w+) = (\\w+)', '$2 = $1', regex)).toBe('value = key');
+    expect(replaceAll('key = value', '(?<name>\\w+) = (?<v>\\w+)', '$<v>: $<name>', regex)).toBe('value: key');
+  });
+
+  it('reads $12 as group 1 followed by "2" when there are fewer than 12 groups', () => {
+    expect(replaceAll('ab', '(a)(b)', '$12', regex)).toBe('a2');
+    const twelve = '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)(l)';
+    expect(replaceAll('abcdefghijkl', twelve, '$12', regex)).toBe('l');
+  });
+
+  it('keeps tokens that name no group, like String.prototype.replace', () => {
+    expect(replaceAll('ab', '(a)b', '$3 $0 $<name>', regex)).toBe('$3 $0 $<name>');
+    // With named groups, an unknown name is empty
+    expect(replaceAll('ab', '(?<x>a)b', '[$<y>]', regex)).toBe('[]');
+  });
+
+  it('understands $& and $$', () => {
+    expect(replaceAll('price', 'price', '$$$&', regex)).toBe('$price');
+  });
+
+  it('inserts the template verbatim in plain searches', () => {
+    expect(replaceAll('a.b', 'a.b', '$1$$', {})).toBe('$1$$');
+  });
+
+  it('preserves the case of the replaced text', () => {
+    const options = { preserveCase: true };
+    expect(replaceAll('foo Foo FOO fOo', 'foo', 'bar', options)).toBe('bar Bar BAR bar');
+    expect(replaceAll('x_1 X_1', 'x_1', 'y_2', options)).toBe('y_2 Y_2');
+    expect(replaceAll('_1_', '_1_', 'abc', options)).toBe('abc');
+  });
+});
+
+describe('groupMatchLines', () => {
+  const content = ['one', 'foo', 'two', 'three', 'four', 'foo foo', 'five'].join('\n');
+  const matches = findMatches(content, buildSearchRegex('foo', {})!);
+  // Each block as its line numbers, matching lines marked with their match count
+  const outline = (blocks: ReturnType<typeof groupMatchLines>) =>
+    blocks.map(block => block.map(line => line.ranges.length ? `${line.number}:${line.ranges.length}` : `${line.number}`));
+
+  it('shows context lines around each match line', () => {
+    expect(outline(groupMatchLines(content, matches, 0))).toEqual([['2:1'], ['6:2']]);
+    expect(outline(groupMatchLines(content, matches, 1))).toEqual([['1', '2:1', '3'], ['5', '6:2', '7']]);
+  });
+
+  it('joins blocks whose context touches or overlaps', () => {
+    expect(outline(groupMatchLines(content, matches, 2))).toEqual([['1', '2:1', '3', '4', '5', '6:2', '7']]);
+  });
+
+  it('lists at most maxLines matching lines', () => {
+    expect(outline(groupMatchLines(content, matches, 1, 1))).toEqual([['1', '2:1', '3']]);
+  });
+
+  it('keeps the text and start of each line', () => {
+    const [[line]] = groupMatchLines(content, matches, 0, 1);
+    expect(line).toMatchObject({ number: 2, start: 4, text: 'foo' });
+  });
+
+  it('spreads a match over every line it covers', () => {
+    const source = 'a\nfoo(\n  bar\n)\nb';
+    const [match] = findMatches(source, buildSearchRegex('foo\\([^)]*\\)', { useRegex: true })!);
+    const [block] = groupMatchLines(source, [match], 0);
+    expect(block.map(line => line.number)).toEqual([2, 3, 4]);
+    expect(block.map(line => line.ranges.map(range => source.slice(range.start, range.end)))).toEqual([['foo('], ['  bar'], [')']]);
+    expect(block.every(line => line.ranges[0].match === match)).toBe(true);
+  });
+
+  it('gives an empty range to a match that only covers the line break', () => {
+    const source = 'a\nb';
+    const [[line]] = groupMatchLines(source, findMatches(source, buildSearchRegex('\\n', { useRegex: true })!), 0);
+    expect(line).toMatchObject({ number: 1, text: 'a', ranges: [{ start: 1, end: 1 }] });
+  });
+
+  it('searches plain terms literally', () => {
+    const source = 'call foo(1)\nfoo';
+    const blocks = groupMatchLines(source, findMatches(source, buildSearchRegex('foo(', {})!), 0);
+    expect(outline(blocks)).toEqual([['1:1']]);
+  });
+});
+
+describe('createPathFilter', () => {
+  const paths = ['src/App.tsx', 'src/util.ts', 'src/lib/data.json', 'package.json', 'node_modules/x/index.js', 'README.md'];
+  const filter = (include: string, exclude: string) => paths.filter(createPathFilter(include, exclude));
+
+  it('lets everything through without patterns', () => {
+    expect(filter('', '')).toEqual(paths);
+  });
+
+  it('matches patterns without a slash at any depth', () => {
+    expect(filter('*.json', '')).toEqual(['src/lib/data.json', 'package.json']);
+  });
+
+  it('anchors patterns with a slash at the root, with ** spanning folders', () => {
+    expect(filter('src/*.ts', '')).toEqual(['src/util.ts']);
+    expect(filter('src/**/*.json', '')).toEqual(['src/lib/data.json']);
+  });
+
+  it('matches everything inside a matching folder', () => {
+    expect(filter('', 'node_modules, src/lib/')).toEqual(['src/App.tsx', 'src/util.ts', 'package.json', 'README.md']);
+  });
+
+  it('keeps commas inside braces in one pattern', () => {
+    expect(filter('*.{ts,tsx}, *.md', '')).toEqual(['src/App.tsx', 'src/util.ts', 'README.md']);
+    expect(filter('*.{ts,tsx', '')).toEqual(['src/App.tsx', 'src/util.ts']);
+  });
+
+  it('turns a negated include into an exclude', () => {
+    expect(filter('src/**, !*.json', '')).toEqual(['src/App.tsx', 'src/util.ts']);
+  });
+
+  it('turns a negated exclude into an exception to the excludes', () => {
+    expect(filter('', '*.json, !package.json')).toEqual(['src/App.tsx', 'src/util.ts', 'package.json', 'node_modules/x/index.js', 'README.md']);
+  });
+
+  it('matches ? against a single character within a folder', () => {
+    expect(filter('src/???.ts', '')).toEqual([]);
+    expect(filter('src/????.ts', '')).toEqual(['src/util.ts']);
+  });
+});
@@ -0,0 +1,255 @@
+// Project search and replace over file contents: the pattern for a query, every match in
+// a text, and the replacement text for each match.
+
+export interface SearchOptions {
+  useRegex?: boolean;
+  caseSensitive?: boolean;
+  // Matches must not be preceded or followed by a letter, digit or underscore
+  wholeWord?: boolean;
+  // The replacement takes the casing of the text it replaces (foo -> bar, Foo -> Bar, FOO -> BAR)
+  preserveCase?: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  // 1-based line of the match start, and where that line begins in the text
+  line: number;
+  lineStart: number;
+  // Capture groups and named groups, for `$1` / `$<name>` in replacements
+  groups: (string | undefined)[];
+  namedGroups?: Record<string, string | undefined>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Global pattern for a query; null when the term is empty or not a valid regex
+export const buildSearchRegex = (term: string, options: SearchOptions): RegExp | null => {
+  if (!term) return null;
+  const source = options.useRegex ? term : escapeRegExp(term);
+  try {
+    return new RegExp(options.wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source, options.caseSensitive ? 'gm' : 'gim');
+  } catch {
+    return null;
+  }
+};
+
+// `**/` spans any number of folders, `*` and `?` stay within one, `{a,b}` is either
+const globToRegExp = (glob: string) => {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}${')'.repeat(braces)}$`);
+};
+
+// Comma-separated patterns; commas inside braces belong to the pattern
+const splitGlobs = (text: string) => {
+  const patterns = [''];
+  let braces = 0;
+  for (const char of text) {
+    if (char === ',' && braces === 0) {
+      patterns.push('');
+      continue;
+    }
+    if (char === '{') braces++;
+    else if (char === '}' && braces > 0) braces--;
+    patterns[patterns.length - 1] += char;
+  }
+  return patterns.map(pattern => pattern.trim()).filter(Boolean);
+};
+
+// Like VS Code, a pattern without a slash matches at any depth (`*.ts`, `node_modules`),
+// and a pattern matching a folder matches everything inside it
+const globMatcher = (pattern: string) => {
+  let glob = pattern.replace(/^\.?\//, '').replace(/\/$/, '');
+  if (!glob.includes('/')) glob = `**/${glob}`;
+  const regex = globToRegExp(glob);
+  return (path: string) => {
+    const parts = path.split('/');
+    for (let n = parts.length; n > 0; n--) {
+      if (regex.test(parts.slice(0, n).join('/'))) return true;
+    }
+    return false;
+  };
+};
+
+// Whether a file path passes comma-separated "files to include" / "files to exclude" globs.
+// A leading `!` turns an include into an exclude, and an exclude into an exception to the excludes.
+export const createPathFilter = (include: string, exclude: string) => {
+  const includes: ((path: string) => boolean)[] = [];
+  const excludes: ((path: string) => boolean)[] = [];
+  const exceptions: ((path: string) => boolean)[] = [];
+  const add = (text: string, list: typeof includes, negatedList: typeof includes) => splitGlobs(text).forEach(pattern => {
+    if (pattern.startsWith('!')) negatedList.push(globMatcher(pattern.slice(1).trim()));
+    else list.push(globMatcher(pattern));
+  });
+  add(include, includes, excludes);
+  add(exclude, excludes, exceptions);
+
+  return (path: string) => (includes.length === 0 || includes.some(matches => matches(path)))
+    && !(excludes.some(matches => matches(path)) && !exceptions.some(matches => matches(path)));
+};
+
+// Every non-overlapping match of `regex` in `content`. Empty matches (`^`, `\b`) are
+// skipped, as there is nothing to show or replace.
+export const findMatches = (content: string, regex: RegExp): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+  let line = 1, lineStart = 0, scanned = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    for (let i = content.indexOf('\n', scanned); i !== -1 && i < match.index; i = content.indexOf('\n', i + 1)) {
+      line++;
+      lineStart = i + 1;
+    }
+    scanned = match.index;
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      line,
+      lineStart,
+      groups: match.slice(1),
+      namedGroups: match.groups,
+    });
+  }
+  return matches;
+};
+
+// `text` in the casing of `original`: all upper, all lower or capitalized; mixed casing is left alone
+const matchCase = (text: string, original: string) => {
+  if (original.toUpperCase() === original.toLowerCase()) return text;
+  if (original.toUpperCase() === original) return text.toUpperCase();
+  if (original.toLowerCase() === original) return text.toLowerCase();
+  const first = original.charAt(0);
+  const rest = original.slice(1);
+  if (first.toUpperCase() === first && rest.toLowerCase() === rest) return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  return text;
+};
+
+// The text that replaces `match`. With regexes the template understands `$1`..`$99`,
+// `$<name>`, `$&` and `$$`, like String.prototype.replace; plain searches insert it verbatim.
+export const getReplacement = (content: string, match: SearchMatch, template: string, options: SearchOptions) => {
+  const original = content.slice(match.start, match.end);
+  const expanded = !options.useRegex ? template : template.replace(/\$(\$|&|<([^>]*)>|(\d{1,2}))/g, (token, kind: string, name?: string, digits?: string) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return original;
+    if (name !== undefined) return match.namedGroups ? match.namedGroups[name] ?? '' : token;
+    // `$12` with fewer than 12 groups means group 1 followed by "2"
+    let n = Number(digits);
+    let suffix = '';
+    if (n > match.groups.length && digits!.length === 2) {
+      n = Number(digits![0]);
+      suffix = digits![1];
+    }
+    if (n === 0 || n > match.groups.length) return token;
+    return (match.groups[n - 1] ?? '') + suffix;
+  });
+  return options.preserveCase ? matchCase(expanded, original) : expanded;
+};
+
+// `content` with the given matches replaced; `replacements` lines up with `matches`
+export const applyReplacements = (content: string, matches: SearchMatch[], replacements: string[]) => {
+  let result = '';
+  let position = 0;
+  matches.forEach((match, i) => {
+    result += content.slice(position, match.start) + replacements[i];
+    position = match.end;
+  });
+  return result + content.slice(position);
+};
+
+// The part of a match on one line: a match spanning lines has a range on each of them
+export interface MatchRange {
+  start: number;
+  end: number;
+  match: SearchMatch;
+}
+
+export interface ResultLine {
+  // 1-based line number and where the line begins in the text
+  number: number;
+  start: number;
+  text: string;
+  // Parts of matches on this line, in order; empty for context lines. A range is empty
+  // when all the match has on this line is its line break.
+  ranges: MatchRange[];
+}
+
+// The lines holding matches (those starting on at most `maxLines` lines, and every line they
+// run on to) with `context` lines around each, as blocks of consecutive lines
+export const groupMatchLines = (content: string, matches: SearchMatch[], context: number, maxLines = Infinity): ResultLine[][] => {
+  const lineStarts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+  const lineEnd = (number: number) => number < lineStarts.length ? lineStarts[number] - 1 : content.length;
+  const lineOf = (offset: number) => {
+    let low = 0, high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+  const lineAt = (number: number, ranges: MatchRange[]): ResultLine => {
+    const start = lineStarts[number - 1];
+    return { number, start, text: content.slice(start, lineEnd(number)), ranges };
+  };
+
+  const byLine = new Map<number, MatchRange[]>();
+  const startLines = new Set<number>();
+  for (const match of matches) {
+    if (!startLines.has(match.line)) {
+      if (startLines.size >= maxLines) break;
+      startLines.add(match.line);
+    }
+    const last = lineOf(match.end - 1);
+    for (let number = match.line; number <= last; number++) {
+      if (!byLine.has(number)) byLine.set(number, []);
+      byLine.get(number)!.push({
+        start: Math.max(match.start, lineStarts[number - 1]),
+        end: Math.min(match.end, lineEnd(number)),
+        match,
+      });
+    }
+  }
+
+  const blocks: ResultLine[][] = [];
+  byLine.forEach((ranges, number) => {
+    const first = Math.max(1, number - context);
+    const last = Math.min(lineStarts.length, number + context);
+    let block = blocks[blocks.length - 1];
+    const shown = block ? block[block.length - 1].number : 0;
+    if (!block || shown < first - 1) {
+      block = [];
+      blocks.push(block);
+    }
+    for (let n = Math.max(first, shown + 1); n <= last; n++) block.push(lineAt(n, n === number ? ranges : []));
+    // A match line already shown as context of the previous one
+    if (number <= shown) block.find(line => line.number === number)!.ranges = ranges;
+  });
+  return blocks;
+};
@@ -0,0 +1,28 @@
+// Keeps the project search index off the main thread; see hooks/useSearchIndex.ts
+import { createSearchIndex, IndexedFile } from './searchIndex';
+
+type SearchIndexRequest =
+  | { type: 'reset'; files: IndexedFile[] }
+  | { type: 'update'; files: (Pick<IndexedFile, 'id'> & Partial<IndexedFile>)[] }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'query'; id: number; term: string; useRegex: boolean };
+
+const index = createSearchIndex();
+
+self.onmessage = (event: MessageEvent<SearchIndexRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'reset':
+      index.reset(request.files);
+      break;
+    case 'update':
+      request.files.forEach(index.update);
+      break;
+    case 'remove':
+      request.ids.forEach(index.remove);
+      break;
+    case 'query':
+      (self as unknown as Worker).postMessage({ id: request.id, fileIds: index.candidates(request.term, request.useRegex) });
+      break;
+  }
+};
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, requiredLiterals, IndexedFile } from './searchIndex';
+import { buildSearchRegex, findMatches } from './search';
+
+describe('requiredLiterals', () => {
+  it('collects the literal runs between regex syntax', () => {
+    expect(requiredLiterals('foo\\s*=\\s*bar')).toEqual(['foo', '=', 'bar']);
+    expect(requiredLiterals('^import .* from')).toEqual(['import ', ' from']);
+    expect(requiredLiterals('a[xyz]+bcd\\.ts$')).toEqual(['a', 'bcd.ts']);
+  });
+
+  it('drops characters and groups that may match nothing', () => {
+    expect(requiredLiterals('colou?r')).toEqual(['colo', 'r']);
+    expect(requiredLiterals('ab*c')).toEqual(['a', 'c']);
+    expect(requiredLiterals('x{0,2}hello')).toEqual(['hello']);
+    expect(requiredLiterals('(foo)?bar')).toEqual(['bar']);
+    expect(requiredLiterals('(?:abc)*def')).toEqual(['def']);
+    expect(requiredLiterals('(?!xyz)hello')).toEqual(['hello']);
+  });
+
+  it('keeps repeated characters but ends the run after them', () => {
+    expect(requiredLiterals('fo+bar')).toEqual(['fo', 'bar']);
+    expect(requiredLiterals('hel{2}o')).toEqual(['hel', 'o']);
+  });
+
+  it('keeps the contents of required groups', () => {
+    expect(requiredLiterals('(?<name>func)tion')).toEqual(['func', 'tion']);
+    expect(requiredLiterals('(abc)\\1')).toEqual(['abc']);
+  });
+
+  it('gives up on alternations, unread escapes and unbalanced groups', () => {
+    expect(requiredLiterals('foo|bar')).toBeNull();
+    expect(requiredLiterals('\\x66oo')).toBeNull();
+    expect(requiredLiterals('\\p{L}abc')).toBeNull();
+    expect(requiredLiterals('(abc')).toBeNull();
+    expect(requiredLiterals('abc)')).toBeNull();
+    expect(requiredLiterals('abc\\')).toBeNull();
+  });
+});
+
+describe('createSearchIndex', () => {
+  const files: IndexedFile[] = [
+    { id: 'app', name: 'App.tsx', content: 'const foo = bar(1);\nfunction Hello() {}\ncolor: red;' },
+    { id: 'util', name: 'util.ts', content: 'export const FOOBAR = 2; // ΟΔΟΣ straße\nexport const colour = 3;' },
+    { id: 'css', name: 'foo.css', content: '.a { color: red }\n.b { color: blue }' },
+    { id: 'readme', name: 'README.md', content: '# Title\n\nSome *text* (with parens) and a.b.c' },
+  ];
+
+  // Files the index must never rule out: those whose name holds the term, or whose content matches it
+  const expectNoMissedFiles = (index: ReturnType<typeof createSearchIndex>, indexed: IndexedFile[], term: string, useRegex: boolean) => {
+    const candidates = index.candidates(term, useRegex);
+    if (candidates === null) return;
+    const regex = buildSearchRegex(term, { useRegex });
+    const expected = indexed
+      .filter(file => file.name.toLowerCase().includes(term.toLowerCase()) || (regex && findMatches(file.content, regex).length > 0))
+      .map(file => file.id);
+    expect(candidates, `${useRegex ? 'regex' : 'term'} ${term}`).toEqual(expect.arrayContaining(expected));
+  };
+
+  it('narrows searches to files holding every trigram of the term', () => {
+    const index = createSearchIndex();
+    index.reset(files);
+    expect(index.candidates('hello', false)).toEqual(['app']);
+    expect(index.candidates('FOOB', false)).toEqual(['util']);
+    expect(index.candidates('readme', false)).toEqual(['readme']);
+    expect(index.candidates('nowhere', false)).toEqual([]);
+  });
+
+  it('cannot rule anything out for short or loose terms', () => {
+    const index = createSearchIndex();
+    index.reset(files);
+    expect(index.candidates('ab', false)).toBeNull();
+    expect(index.candidates('a|b', true)).toBeNull();
+    expect(index.candidates('[fb]oo', true)).toBeNull();
+  });
+
+  it('never misses a file that matches', () => {
+    const index = createSearchIndex();
+    index.reset(files);
+    const terms = ['foo', 'color', 'colour', 'bar(', '(with', 'a.b.c', 'οσ', 'ΟΔΟΣ', 'STRASSE', 'straße', 'App.ts', '.css', 'Title\n\nSome'];
+    const regexes = ['colou?r', 'foo\\s*=\\s*bar', 'colo(u)?r', 'fo+', '\\*text\\*', 'const \\w+ = \\d', 'func(tion)?', '(?<n>Hel)lo', 'x{0,2}color', '^export', 'a\\.b'];
+    terms.forEach(term => expectNoMissedFiles(index, files, term, false));
+    regexes.forEach(term => expectNoMissedFiles(index, files, term, true));
+  });
+
+  it('follows edits, renames and deletions', () => {
+    const index = createSearchIndex();
+    index.reset(files);
+    index.update({ id: 'css', content: 'hello world' });
+    expect(index.candidates('hello', false)).toEqual(['app', 'css']);
+    expect(index.candidates('blue', false)).toEqual([]);
+
+    index.update({ id: 'css', name: 'renamed.css' });
+    expect(index.candidates('renamed', false)).toEqual(['css']);
+    expect(index.candidates('foo.css', false)).toEqual([]);
+    expect(index.candidates('world', false)).toEqual(['css']);
+
+    index.remove('app');
+    expect(index.candidates('hello', false)).toEqual(['css']);
+
+    index.update({ id: 'new', name: 'new.ts', content: 'hello again' });
+    expect(index.candidates('hello', false)).toEqual(['css', 'new']);
+  });
+});
@@ -0,0 +1,167 @@
+// Trigram index of file names and contents for project search. A file can only match a
+// term if it holds every trigram of the term, so a search only has to scan the files
+// listed under all of them. Edits update a single file's entries.
+
+export interface IndexedFile {
+  id: string;
+  name: string;
+  content: string;
+}
+
+// Names and contents are indexed together: a file is a candidate whichever one matches
+const indexedText = (file: IndexedFile) => `${file.name}\n${file.content}`;
+
+// Case folding under which both case-insensitive regexes (which compare upper case) and
+// lower-cased name matches find the same trigrams
+const fold = (text: string) => text.toUpperCase().toLowerCase().replace(/ς/g, 'σ');
+
+const trigramsOf = (text: string) => {
+  const folded = fold(text);
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= folded.length; i++) trigrams.add(folded.slice(i, i + 3));
+  return trigrams;
+};
+
+// A quantifier that lets the preceding atom match nothing: `?`, `*`, `{0,…}`. Anything
+// else starting with `{` is treated the same, as we cannot tell it is a `{n}` with n > 0.
+const isOptionalQuantifier = (source: string, i: number) =>
+  source[i] === '?' || source[i] === '*' || (source[i] === '{' && !/^\{[1-9]/.test(source.slice(i)));
+
+// Literal runs that every match of a regex contains; null when we cannot tell
+// (alternations, or escapes such as `\x41` and `\p{L}` we do not read)
+export const requiredLiterals = (source: string): string[] | null => {
+  if (source.includes('|')) return null;
+  const runs: string[] = [];
+  let run = '';
+  // Where each open group's runs start, and whether its contents may be missing from a match
+  const groups: { start: number; optional: boolean }[] = [];
+  const flush = () => {
+    if (run) runs.push(run);
+    run = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    let literal: string | null = null;
+    if (char === '\\') {
+      const escaped = source[++i];
+      if (escaped === undefined) return null;
+      if (!/[a-zA-Z0-9]/.test(escaped)) literal = escaped;
+      else if (!/[dDwWsSbBnrtfv0-9]/.test(escaped)) return null;
+    } else if (char === '[') {
+      i++;
+      if (source[i] === '^') i++;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+    } else if (char === '(') {
+      flush();
+      const negative = source.startsWith('(?!', i) || source.startsWith('(?<!', i);
+      groups.push({ start: runs.length, optional: negative });
+      if (source[i + 1] === '?') {
+        const named = source[i + 2] === '<' && source[i + 3] !== '=' && source[i + 3] !== '!';
+        i = named ? source.indexOf('>', i) : i + (source[i + 2] === '<' ? 3 : 2);
+        if (i === -1) return null;
+      }
+      continue;
+    } else if (char === ')') {
+      flush();
+      const group = groups.pop();
+      if (!group) return null;
+      if (group.optional || isOptionalQuantifier(source, i + 1)) runs.length = group.start;
+      continue;
+    } else if (char === '{') {
+      const quantifier = /^\{\d+(,\d*)?\}/.exec(source.slice(i));
+      if (quantifier) i += quantifier[0].length - 1;
+    } else if (!'.^$?*+}'.includes(char)) {
+      literal = char;
+    }
+
+    if (literal === null) {
+      flush();
+    } else if (isOptionalQuantifier(source, i + 1)) {
+      flush();
+    } else {
+      run += literal;
+      // Repeated (`+`, `{2}`): the character is there, but what follows is not next to it
+      if (source[i + 1] === '+' || source[i + 1] === '{') flush();
+    }
+  }
+  flush();
+  return groups.length === 0 ? runs : null;
+};
+
+export const createSearchIndex = () => {
+  const files = new Map<string, IndexedFile>();
+  const fileTrigrams = new Map<string, Set<string>>();
+  const postings = new Map<string, Set<string>>();
+
+  const unlink = (id: string, trigram: string) => {
+    const ids = postings.get(trigram);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) postings.delete(trigram);
+  };
+
+  const link = (id: string, trigram: string) => {
+    let ids = postings.get(trigram);
+    if (!ids) {
+      ids = new Set();
+      postings.set(trigram, ids);
+    }
+    ids.add(id);
+  };
+
+  // Adds a file, or updates the given fields of an indexed one; only trigrams that
+  // appeared or disappeared touch the postings
+  const update = (change: Pick<IndexedFile, 'id'> & Partial<IndexedFile>) => {
+    const previous = files.get(change.id);
+    const file: IndexedFile = { id: change.id, name: '', content: '', ...previous, ...change };
+    files.set(file.id, file);
+    const before = fileTrigrams.get(file.id) ?? new Set<string>();
+    const after = trigramsOf(indexedText(file));
+    before.forEach(trigram => {
+      if (!after.has(trigram)) unlink(file.id, trigram);
+    });
+    after.forEach(trigram => {
+      if (!before.has(trigram)) link(file.id, trigram);
+    });
+    fileTrigrams.set(file.id, after);
+  };
+
+  const remove = (id: string) => {
+    fileTrigrams.get(id)?.forEach(trigram => unlink(id, trigram));
+    fileTrigrams.delete(id);
+    files.delete(id);
+  };
+
+  const reset = (all: IndexedFile[]) => {
+    files.clear();
+    fileTrigrams.clear();
+    postings.clear();
+    all.forEach(update);
+  };
+
+  // Ids of the files that may contain `term` in their name or content; null when the term
+  // is too short (or too loose a regex) to rule any file out
+  const candidates = (term: string, useRegex: boolean): string[] | null => {
+    const literals = useRegex ? requiredLiterals(term) : [term];
+    if (!literals) return null;
+    const required = new Set<string>();
+    literals.forEach(literal => trigramsOf(literal).forEach(trigram => required.add(trigram)));
+    if (required.size === 0) return null;
+
+    // Intersect starting from the rarest trigram
+    const lists: Set<string>[] = [];
+    for (const trigram of required) {
+      const ids = postings.get(trigram);
+      if (!ids) return [];
+      lists.push(ids);
+    }
+    lists.sort((a, b) => a.size - b.size);
+    return [...lists[0]].filter(id => lists.every(ids => ids.has(id)));
+  };
+
+  return { update, remove, reset, candidates };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -8,7 +8,7 @@ export enum ActivityBarView {
 
 export type Theme = 'light' | 'dark';
 
-export type GitStatus = 'M' | 'A' | 'U' | null;
+export type GitStatus = 'M' | 'A' | 'U' | 'D' | 'R' | null;
 
 export type SupportedLanguage = 'html' | 'css' | 'javascript' | 'json' | 'typescript' | 'markdown';
 
@@ -20,6 +20,22 @@ export interface File {
   content: string;
   gitStatus?: GitStatus;
   isDirty?: boolean;
+  // Set on read-only copies of a file opened at a past commit
+  revision?: string;
+}
+
+// One side of a diff tab: a file as it is now, at HEAD or at a commit, or fixed text such as the clipboard
+export type DiffSource =
+  | { kind: 'working'; fileId: string }
+  | { kind: 'head'; fileId: string }
+  | { kind: 'revision'; fileId: string; commitId: string }
+  // `id` is given once, when the comparison is made, so its tab can be found again
+  | { kind: 'text'; id: string; label: string; content: string };
+
+export interface DiffTab {
+  id: string;
+  left: DiffSource;
+  right: DiffSource;
 }
 
 export interface Folder {
@@ -56,6 +72,114 @@ export interface ContextMenuData {
   node: FileSystemNode;
 }
 
+// A span of a file's content, by character offsets
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface EditSnapshot {
+  content: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export type EditKind = 'insert' | 'delete' | 'command';
+
+export interface EditHistory {
+  undoStack: EditSnapshot[];
+  redoStack: EditSnapshot[];
+  lastKind: EditKind | null;
+  lastEditAt: number;
+}
+
+// A project-wide replace, kept so it can be undone in one step
+export interface ReplaceOperation {
+  matches: number;
+  files: { fileId: string; before: string; after: string }[];
+}
+
+export interface GitCommit {
+  id: string;
+  parentId: string | null;
+  // Second parent of a merge commit: the tip of the merged branch
+  mergeParentId?: string;
+  message: string;
+  author: string;
+  timestamp: number;
+  // Full snapshot of the project at this commit, files without editor flags
+  tree: FileSystemNode[];
+}
+
+// A file that differs between two trees. Files are matched by id, so 'R' covers
+// renames and moves; 'M' is a content change in place.
+export interface GitFileChange {
+  // The new version; for deletions, the old one
+  file: File;
+  status: 'A' | 'M' | 'D' | 'R';
+  // Slash-separated paths from the project root, null on the side the file is missing from
+  oldPath: string | null;
+  path: string | null;
+  // False only for renames and moves that kept the content
+  modified: boolean;
+}
+
+// A commit that changed a file, with the file before and after it
+export interface GitFileRevision {
+  commit: GitCommit;
+  status: 'A' | 'M' | 'D';
+  // The file at this commit; for deletions, the last version before it
+  file: File;
+  previous: File | null;
+}
+
+// A merge stopped on conflicts; the next commit becomes the merge commit
+export interface GitMergeState {
+  branch: string;
+  commitId: string;
+  conflicts: string[];
+}
+
+export interface GitStash {
+  id: string;
+  message: string;
+  branch: string;
+  // HEAD when the stash was made; the base for re-applying it
+  commitId: string;
+  timestamp: number;
+  // Added and modified files, inside the folders that held them
+  changes: FileSystemNode[];
+  // Ids of files deleted relative to HEAD
+  deleted: string[];
+}
+
+export interface GitStashApplyResult {
+  stash: GitStash;
+  // Names of the files left with conflict markers
+  conflicts: string[];
+}
+
+// Outcome of applying one hunk of a patch
+export interface PatchHunkResult {
+  header: string;
+  applied: boolean;
+  // Lines between where the hunk said it was and where it matched
+  offset: number;
+  // Context lines ignored at each end of the hunk to make it match
+  fuzz: number;
+  // Why a hunk was rejected
+  reason?: string;
+}
+
+export interface PatchFileResult {
+  // Paths the patch names, null for a created (old) or deleted (new) file
+  oldPath: string | null;
+  path: string | null;
+  hunks: PatchHunkResult[];
+  // Set when the file could not be patched at all (missing, already exists...)
+  error?: string;
+}
+
 export interface Command {
   id: string;
   label: string;